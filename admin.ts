@@ -0,0 +1,460 @@
+/**
+ * 本地 Web 管理台 — 服务状态、任务队列、会话、定时任务、心跳、记忆
+ *
+ * 由主服务进程内的 Bun.serve 提供（ADMIN_PORT，默认只监听本机），需 ADMIN_TOKEN 登录。
+ * 页面为单个内联 HTML，数据全部走 /api/*；所有修改操作由调用方写入审计日志。
+ *
+ * 鉴权：
+ * - POST /api/login 校验令牌后下发 HttpOnly + SameSite=Strict 会话 Cookie（12 小时）
+ * - 也接受 Authorization: Bearer <ADMIN_TOKEN>，便于脚本调用
+ * - 写操作只接受 JSON 请求体，配合 SameSite 防止跨站提交
+ */
+
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import type { SearchResult } from "./memory.js";
+import type { CronJob, CronSchedule } from "./scheduler.js";
+import type { QueuePosition, TaskInfo } from "./task-queue.js";
+
+// ── 类型 ──────────────────────────────────────────
+
+export interface AdminStatus {
+	model: string;
+	apiKey: string;
+	stt: string;
+	memory: string;
+	scheduler: string;
+	heartbeat: string;
+	tasks: string;
+	bots: Array<{ id: string; label: string; access: string }>;
+	projects: Array<{ name: string; path: string; isDefault: boolean }>;
+	startedAt: string;
+}
+
+export interface AdminSession {
+	key: string;
+	project: string;
+	scope: string;
+	active: string | null;
+	history: Array<{ id: string; summary: string; createdAt: number; lastActiveAt: number }>;
+}
+
+export interface AdminHeartbeat {
+	enabled: boolean;
+	everyMs: number;
+	lastRunAt?: string;
+	nextRunAt?: string;
+	lastStatus?: string;
+}
+
+/** 可由管理台修改的定时任务字段 */
+export type CronPatch = Partial<Pick<CronJob, "name" | "message" | "enabled" | "schedule" | "timeoutMinutes" | "idleTimeoutMinutes">>;
+
+/** 主服务提供的数据与操作 */
+export interface AdminBackend {
+	status(): AdminStatus;
+	tasks(): { running: TaskInfo[]; waiting: Array<TaskInfo & QueuePosition> };
+	/** 运行中的终止进程，排队中的取消；返回是否找到任务 */
+	killTask(id: string): boolean;
+	sessions(): AdminSession[];
+	cronJobs(): Promise<CronJob[]>;
+	updateCronJob(id: string, patch: CronPatch): Promise<CronJob | null>;
+	runCronJob(id: string): Promise<{ status: string; error?: string }>;
+	heartbeat(): AdminHeartbeat;
+	updateHeartbeat(patch: { enabled?: boolean; everyMs?: number }): AdminHeartbeat;
+	runHeartbeat(): Promise<unknown>;
+	memoryStats(): { chunks: number; files: number; cachedEmbeddings: number } | undefined;
+	searchMemory(query: string): Promise<SearchResult[]>;
+	/** 记录管理台操作（审计） */
+	onAction(action: string, detail: Record<string, unknown>): void;
+}
+
+export type AdminHandler = (req: Request) => Promise<Response>;
+
+const COOKIE_NAME = "claw_admin";
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+// 登录失败限流：每分钟最多 5 次
+const LOGIN_WINDOW_MS = 60 * 1000;
+const LOGIN_MAX_FAILURES = 5;
+const SEARCH_LIMIT = 8;
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+	return new Response(JSON.stringify(body ?? {}), {
+		status,
+		headers: { "Content-Type": "application/json; charset=utf-8", "Cache-Control": "no-store", ...headers },
+	});
+}
+
+// 空令牌一律拒绝（.env 中删掉 ADMIN_TOKEN 即停用）
+function safeEqual(a: string, b: string): boolean {
+	if (!a || !b) return false;
+	const left = Buffer.from(a);
+	const right = Buffer.from(b);
+	return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+	for (const part of (req.headers.get("cookie") ?? "").split(";")) {
+		const [k, ...v] = part.trim().split("=");
+		if (k === name) return v.join("=");
+	}
+	return undefined;
+}
+
+// 只接受已知的调度格式，避免把任意结构写进 cron-jobs.json
+function parseSchedule(raw: unknown): CronSchedule | undefined {
+	const s = raw as Record<string, unknown> | null;
+	if (!s || typeof s !== "object") return undefined;
+	if (s.kind === "at" && typeof s.at === "string" && !Number.isNaN(Date.parse(s.at))) return { kind: "at", at: s.at };
+	if (s.kind === "every" && typeof s.everyMs === "number" && s.everyMs >= 60_000) return { kind: "every", everyMs: s.everyMs };
+	if (s.kind === "cron" && typeof s.expr === "string" && s.expr.trim().split(/\s+/).length === 5) {
+		return { kind: "cron", expr: s.expr.trim(), ...(typeof s.tz === "string" && s.tz ? { tz: s.tz } : {}) };
+	}
+	return undefined;
+}
+
+function parseCronPatch(body: Record<string, unknown>): CronPatch | string {
+	const patch: CronPatch = {};
+	if ("name" in body) {
+		if (typeof body.name !== "string" || !body.name.trim()) return "name 不能为空";
+		patch.name = body.name.trim();
+	}
+	if ("message" in body) {
+		if (typeof body.message !== "string" || !body.message.trim()) return "message 不能为空";
+		patch.message = body.message;
+	}
+	if ("enabled" in body) {
+		if (typeof body.enabled !== "boolean") return "enabled 应为布尔值";
+		patch.enabled = body.enabled;
+	}
+	if ("schedule" in body) {
+		const schedule = parseSchedule(body.schedule);
+		if (!schedule) return "schedule 格式无效（at 需 ISO 时间，every 至少 60000ms，cron 需 5 段表达式）";
+		patch.schedule = schedule;
+	}
+	for (const key of ["timeoutMinutes", "idleTimeoutMinutes"] as const) {
+		if (!(key in body)) continue;
+		const v = body[key];
+		if (v === null) patch[key] = undefined;
+		else if (typeof v === "number" && Number.isFinite(v) && v >= 0) patch[key] = v;
+		else return `${key} 应为非负数字或 null`;
+	}
+	return patch;
+}
+
+// ── 请求处理 ──────────────────────────────────────
+
+export function createAdminHandler(opts: {
+	/** 每次请求时读取（支持 .env 热更新） */
+	token: () => string;
+	backend: AdminBackend;
+	log?: (msg: string) => void;
+}): AdminHandler {
+	const { token, backend } = opts;
+	const log = opts.log ?? ((msg) => console.log(`[管理台] ${msg}`));
+	const sessions = new Map<string, number>();
+	const failures: number[] = [];
+
+	function authorized(req: Request): boolean {
+		const bearer = req.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+		if (bearer) return safeEqual(bearer, token());
+		const sid = readCookie(req, COOKIE_NAME);
+		const expires = sid ? sessions.get(sid) : undefined;
+		if (!sid || !expires) return false;
+		if (expires < Date.now()) {
+			sessions.delete(sid);
+			return false;
+		}
+		return true;
+	}
+
+	async function readJson(req: Request): Promise<Record<string, unknown> | undefined> {
+		if (!req.headers.get("content-type")?.includes("application/json")) return undefined;
+		try {
+			const body = await req.json();
+			return body && typeof body === "object" ? (body as Record<string, unknown>) : undefined;
+		} catch {
+			return undefined;
+		}
+	}
+
+	async function login(req: Request): Promise<Response> {
+		const now = Date.now();
+		while (failures.length > 0 && now - failures[0]! > LOGIN_WINDOW_MS) failures.shift();
+		if (failures.length >= LOGIN_MAX_FAILURES) return json({ error: "尝试次数过多，请稍后再试" }, 429);
+		const body = await readJson(req);
+		if (typeof body?.token !== "string" || !safeEqual(body.token, token())) {
+			failures.push(now);
+			log("登录失败");
+			return json({ error: "令牌错误" }, 401);
+		}
+		for (const [sid, exp] of sessions) if (exp < now) sessions.delete(sid);
+		const sid = randomUUID();
+		sessions.set(sid, now + SESSION_TTL_MS);
+		backend.onAction("login", {});
+		return json({ ok: true }, 200, {
+			"Set-Cookie": `${COOKIE_NAME}=${sid}; HttpOnly; SameSite=Strict; Path=/; Max-Age=${SESSION_TTL_MS / 1000}`,
+		});
+	}
+
+	async function route(req: Request, path: string): Promise<Response> {
+		const method = req.method;
+		if (method === "GET" && path === "/api/status") return json(backend.status());
+		if (method === "GET" && path === "/api/tasks") return json(backend.tasks());
+		if (method === "GET" && path === "/api/sessions") return json(backend.sessions());
+		if (method === "GET" && path === "/api/cron") return json(await backend.cronJobs());
+		if (method === "GET" && path === "/api/heartbeat") return json(backend.heartbeat());
+		if (method === "GET" && path === "/api/memory") return json({ stats: backend.memoryStats() ?? null });
+		if (method === "GET" && path === "/api/memory/search") {
+			const q = new URL(req.url).searchParams.get("q")?.trim();
+			if (!q) return json({ error: "缺少 q" }, 400);
+			if (!backend.memoryStats()) return json({ error: "记忆系统未启用" }, 503);
+			const results = await backend.searchMemory(q);
+			return json(results.slice(0, SEARCH_LIMIT));
+		}
+
+		if (method !== "POST") return json({ error: "not found" }, 404);
+		const body = await readJson(req);
+		if (!body) return json({ error: "需要 JSON 请求体" }, 415);
+
+		const killMatch = path.match(/^\/api\/tasks\/([\w-]+)\/kill$/);
+		if (killMatch) {
+			const id = killMatch[1]!;
+			if (!backend.killTask(id)) return json({ error: "任务不存在或已结束" }, 404);
+			backend.onAction("task.kill", { taskId: id });
+			return json({ ok: true });
+		}
+
+		const cronRunMatch = path.match(/^\/api\/cron\/([\w-]+)\/run$/);
+		if (cronRunMatch) {
+			const id = cronRunMatch[1]!;
+			backend.onAction("cron.run", { job: id });
+			return json(await backend.runCronJob(id));
+		}
+
+		const cronMatch = path.match(/^\/api\/cron\/([\w-]+)$/);
+		if (cronMatch) {
+			const id = cronMatch[1]!;
+			const patch = parseCronPatch(body);
+			if (typeof patch === "string") return json({ error: patch }, 400);
+			const job = await backend.updateCronJob(id, patch);
+			if (!job) return json({ error: "任务不存在" }, 404);
+			backend.onAction("cron.update", { job: id, patch });
+			return json(job);
+		}
+
+		if (path === "/api/heartbeat") {
+			const patch: { enabled?: boolean; everyMs?: number } = {};
+			if (typeof body.enabled === "boolean") patch.enabled = body.enabled;
+			if ("everyMinutes" in body) {
+				const mins = Number(body.everyMinutes);
+				if (!Number.isInteger(mins) || mins < 1 || mins > 1440) return json({ error: "间隔范围: 1-1440 分钟" }, 400);
+				patch.everyMs = mins * 60_000;
+			}
+			backend.onAction("heartbeat.update", patch);
+			return json(backend.updateHeartbeat(patch));
+		}
+		if (path === "/api/heartbeat/run") {
+			backend.onAction("heartbeat.run", {});
+			return json(await backend.runHeartbeat());
+		}
+		if (path === "/api/logout") {
+			const sid = readCookie(req, COOKIE_NAME);
+			if (sid) sessions.delete(sid);
+			return json({ ok: true }, 200, { "Set-Cookie": `${COOKIE_NAME}=; HttpOnly; SameSite=Strict; Path=/; Max-Age=0` });
+		}
+		return json({ error: "not found" }, 404);
+	}
+
+	return async (req) => {
+		const path = new URL(req.url).pathname;
+		if (req.method === "GET" && (path === "/" || path === "/index.html")) {
+			return new Response(ADMIN_PAGE, {
+				headers: {
+					"Content-Type": "text/html; charset=utf-8",
+					"Cache-Control": "no-store",
+					"Content-Security-Policy": "default-src 'self'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; frame-ancestors 'none'",
+				},
+			});
+		}
+		if (!path.startsWith("/api/")) return new Response("Not Found", { status: 404 });
+		if (req.method === "POST" && path === "/api/login") return login(req);
+		if (!authorized(req)) return json({ error: "unauthorized" }, 401);
+		try {
+			return await route(req, path);
+		} catch (e) {
+			log(`${req.method} ${path} 失败: ${e instanceof Error ? e.message : e}`);
+			return json({ error: e instanceof Error ? e.message : String(e) }, 500);
+		}
+	};
+}
+
+// ── 页面 ──────────────────────────────────────────
+
+const ADMIN_PAGE = `<!doctype html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>飞书 Cursor 中继 · 管理台</title>
+<style>
+	body { font: 14px/1.5 -apple-system, "PingFang SC", sans-serif; margin: 0; background: #f5f6f7; color: #1f2329; }
+	header { background: #3370ff; color: #fff; padding: 12px 24px; display: flex; justify-content: space-between; align-items: center; }
+	main { max-width: 1100px; margin: 0 auto; padding: 16px; }
+	section { background: #fff; border-radius: 8px; padding: 16px 20px; margin-bottom: 16px; box-shadow: 0 1px 2px rgba(0,0,0,.06); }
+	h2 { font-size: 16px; margin: 0 0 12px; }
+	table { width: 100%; border-collapse: collapse; }
+	th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #eee; vertical-align: top; }
+	th { color: #646a73; font-weight: 500; }
+	code { background: #f2f3f5; padding: 0 4px; border-radius: 3px; }
+	button { border: 1px solid #d0d3d6; background: #fff; border-radius: 4px; padding: 2px 10px; cursor: pointer; }
+	button.danger { color: #f54a45; border-color: #f54a45; }
+	button.primary { color: #fff; background: #3370ff; border-color: #3370ff; }
+	input, textarea { border: 1px solid #d0d3d6; border-radius: 4px; padding: 4px 8px; font: inherit; }
+	textarea { width: 100%; min-height: 60px; box-sizing: border-box; }
+	.muted { color: #8f959e; }
+	.kv { display: grid; grid-template-columns: 90px 1fr; gap: 4px 12px; }
+	#login { max-width: 360px; margin: 120px auto; }
+	.hidden { display: none; }
+	details summary { cursor: pointer; }
+</style>
+</head>
+<body>
+<header><strong>飞书 Cursor 中继 · 管理台</strong><button id="logout" class="hidden">退出</button></header>
+<main>
+	<section id="login" class="hidden">
+		<h2>登录</h2>
+		<p class="muted">输入 .env 中的 ADMIN_TOKEN</p>
+		<form id="login-form"><input id="token" type="password" autocomplete="current-password" style="width:100%;box-sizing:border-box"> <p><button class="primary">登录</button> <span id="login-err" class="muted"></span></p></form>
+	</section>
+	<div id="app" class="hidden">
+		<section><h2>服务状态</h2><div id="status" class="kv"></div></section>
+		<section><h2>任务队列 <button data-reload="tasks">刷新</button></h2><div id="tasks"></div></section>
+		<section><h2>定时任务</h2><div id="cron"></div></section>
+		<section><h2>心跳</h2><div id="heartbeat"></div></section>
+		<section><h2>记忆</h2><div id="memory"></div>
+			<form id="search-form" style="margin-top:8px"><input id="q" placeholder="语义搜索记忆" style="width:60%"> <button>搜索</button></form>
+			<div id="results"></div>
+		</section>
+		<section><h2>会话</h2><div id="sessions"></div></section>
+	</div>
+</main>
+<script>
+const $ = (id) => document.getElementById(id);
+const esc = (s) => String(s ?? "").replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]);
+const time = (v) => v ? new Date(v).toLocaleString("zh-CN", { hour12: false }) : "—";
+const dur = (ms) => { const s = Math.round(ms / 1000); return s < 60 ? s + "秒" : s < 3600 ? Math.floor(s / 60) + "分" : Math.floor(s / 3600) + "时" + Math.floor(s % 3600 / 60) + "分"; };
+
+async function api(path, body) {
+	const res = await fetch(path, body === undefined ? {} : { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+	if (res.status === 401) { showLogin(); throw new Error("unauthorized"); }
+	const data = await res.json();
+	if (!res.ok) throw new Error(data.error || res.statusText);
+	return data;
+}
+
+function showLogin() { $("login").classList.remove("hidden"); $("app").classList.add("hidden"); $("logout").classList.add("hidden"); }
+function showApp() { $("login").classList.add("hidden"); $("app").classList.remove("hidden"); $("logout").classList.remove("hidden"); }
+
+async function loadStatus() {
+	const s = await api("/api/status");
+	const rows = [["模型", s.model], ["Key", s.apiKey], ["STT", s.stt], ["记忆", s.memory], ["调度", s.scheduler], ["心跳", s.heartbeat], ["任务", s.tasks], ["启动于", time(s.startedAt)]];
+	$("status").innerHTML = rows.map(([k, v]) => "<span class=muted>" + k + "</span><span>" + esc(v) + "</span>").join("")
+		+ "<span class=muted>机器人</span><span>" + s.bots.map((b) => esc(b.label) + " <span class=muted>(" + esc(b.access) + ")</span>").join("<br>") + "</span>"
+		+ "<span class=muted>项目</span><span>" + s.projects.map((p) => "<code>" + esc(p.name) + "</code> → " + esc(p.path) + (p.isDefault ? " <span class=muted>默认</span>" : "")).join("<br>") + "</span>";
+}
+
+async function loadTasks() {
+	const { running, waiting } = await api("/api/tasks");
+	const row = (t, state) => "<tr><td><code>" + esc(t.id) + "</code></td><td>" + esc(t.label) + "</td><td>" + state + "</td><td>" + esc(t.priority) + "</td><td><button class=danger data-kill='" + esc(t.id) + "'>" + (t.startedAt ? "终止" : "取消") + "</button></td></tr>";
+	const rows = running.map((t) => row(t, "运行中 " + dur(Date.now() - t.startedAt)))
+		.concat(waiting.map((t) => row(t, "排队 #" + t.position + (t.etaMs > 0 ? "，约 " + dur(t.etaMs) + "后" : ""))));
+	$("tasks").innerHTML = rows.length ? "<table><tr><th>ID</th><th>任务</th><th>状态</th><th>优先级</th><th></th></tr>" + rows.join("") + "</table>" : "<p class=muted>没有运行中或排队中的任务</p>";
+}
+
+function scheduleText(s) {
+	if (s.kind === "at") return "一次性 " + time(s.at);
+	if (s.kind === "every") return "每 " + dur(s.everyMs);
+	return "cron " + s.expr + (s.tz ? " (" + s.tz + ")" : "");
+}
+
+async function loadCron() {
+	const jobs = await api("/api/cron");
+	$("cron").innerHTML = jobs.length ? jobs.map((j) => "<details><summary><strong>" + esc(j.name) + "</strong> · " + esc(scheduleText(j.schedule)) + " · " + (j.enabled ? "启用" : "<span class=muted>已暂停</span>")
+		+ " · 下次 " + time(j.state.nextRunAtMs) + " · 上次 " + esc(j.state.lastStatus || "—") + "</summary>"
+		+ "<form data-cron='" + esc(j.id) + "'><p>名称 <input name=name value='" + esc(j.name) + "'> 调度 <input name=schedule value='" + esc(JSON.stringify(j.schedule)) + "' style='width:40%'></p>"
+		+ "<textarea name=message>" + esc(j.message) + "</textarea>"
+		+ "<p><button class=primary>保存</button> <button type=button data-toggle='" + esc(j.id) + "' data-enabled='" + j.enabled + "'>" + (j.enabled ? "暂停" : "恢复") + "</button> <button type=button data-run='" + esc(j.id) + "'>立即执行</button>"
+		+ (j.state.lastError ? " <span class=muted>" + esc(j.state.lastError.slice(0, 120)) + "</span>" : "") + "</p></form></details>").join("") : "<p class=muted>没有定时任务</p>";
+}
+
+async function loadHeartbeat() {
+	const h = await api("/api/heartbeat");
+	$("heartbeat").innerHTML = "<p>" + (h.enabled ? "✅ 已启用" : "⏸ 已关闭") + " · 上次 " + time(h.lastRunAt) + " · 下次 " + time(h.nextRunAt) + (h.lastStatus ? " · " + esc(h.lastStatus) : "") + "</p>"
+		+ "<form id=hb-form>间隔 <input name=every type=number min=1 max=1440 value='" + Math.round(h.everyMs / 60000) + "' style='width:80px'> 分钟 <button>保存</button> "
+		+ "<button type=button id=hb-toggle data-enabled='" + h.enabled + "'>" + (h.enabled ? "关闭" : "开启") + "</button> <button type=button id=hb-run>立即执行</button></form>";
+}
+
+async function loadMemory() {
+	const { stats } = await api("/api/memory");
+	$("memory").innerHTML = stats ? "<p>" + stats.chunks + " 块 · " + stats.files + " 文件 · " + stats.cachedEmbeddings + " 嵌入缓存</p>" : "<p class=muted>记忆系统未启用</p>";
+}
+
+async function loadSessions() {
+	const list = await api("/api/sessions");
+	$("sessions").innerHTML = list.length ? "<table><tr><th>项目</th><th>作用域</th><th>当前会话</th><th>历史</th></tr>" + list.map((s) => {
+		const active = s.history.find((h) => h.id === s.active);
+		const history = s.history.slice().sort((a, b) => b.lastActiveAt - a.lastActiveAt).map((h) => "<code>" + esc(h.id.slice(0, 8)) + "</code> " + esc(h.summary) + " <span class=muted>" + time(h.lastActiveAt) + "</span>").join("<br>");
+		return "<tr><td>" + esc(s.project) + "</td><td>" + esc(s.scope || "工作区") + "</td><td>" + (active ? esc(active.summary) : "<span class=muted>—</span>") + "</td><td><details><summary>" + s.history.length + " 个</summary>" + history + "</details></td></tr>";
+	}).join("") + "</table>" : "<p class=muted>暂无会话</p>";
+}
+
+const loaders = { status: loadStatus, tasks: loadTasks, cron: loadCron, heartbeat: loadHeartbeat, memory: loadMemory, sessions: loadSessions };
+async function loadAll() {
+	try { await loadStatus(); showApp(); } catch (e) { return; }
+	for (const [name, fn] of Object.entries(loaders)) if (name !== "status") fn().catch((e) => { $(name).textContent = "加载失败: " + e.message; });
+}
+
+async function act(fn, reload) {
+	try { const r = await fn(); if (r && r.status === "error") alert("失败: " + (r.error || "")); } catch (e) { alert(e.message); }
+	await Promise.all(reload.map((n) => loaders[n]().catch(() => {})));
+}
+
+document.addEventListener("click", (e) => {
+	const t = e.target;
+	if (t.dataset.kill && confirm("终止/取消任务 " + t.dataset.kill + "？")) act(() => api("/api/tasks/" + t.dataset.kill + "/kill", {}), ["tasks", "status"]);
+	if (t.dataset.reload) loaders[t.dataset.reload]();
+	if (t.dataset.toggle) act(() => api("/api/cron/" + t.dataset.toggle, { enabled: t.dataset.enabled !== "true" }), ["cron", "status"]);
+	if (t.dataset.run && confirm("立即执行该任务？")) act(() => api("/api/cron/" + t.dataset.run + "/run", {}), ["cron"]);
+	if (t.id === "hb-toggle") act(() => api("/api/heartbeat", { enabled: t.dataset.enabled !== "true" }), ["heartbeat", "status"]);
+	if (t.id === "hb-run") act(() => api("/api/heartbeat/run", {}), ["heartbeat"]);
+	if (t.id === "logout") api("/api/logout", {}).finally(showLogin);
+});
+
+document.addEventListener("submit", (e) => {
+	e.preventDefault();
+	const f = e.target;
+	if (f.id === "login-form") {
+		fetch("/api/login", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ token: $("token").value }) })
+			.then((r) => r.json().then((d) => { if (r.ok) { $("token").value = ""; loadAll(); } else $("login-err").textContent = d.error; }));
+	} else if (f.id === "hb-form") {
+		act(() => api("/api/heartbeat", { everyMinutes: Number(f.every.value) }), ["heartbeat", "status"]);
+	} else if (f.id === "search-form") {
+		const q = $("q").value.trim();
+		if (!q) return;
+		$("results").textContent = "搜索中...";
+		api("/api/memory/search?q=" + encodeURIComponent(q)).then((rs) => {
+			$("results").innerHTML = rs.length ? rs.map((r) => "<p><code>" + esc(r.path) + "#L" + r.startLine + "</code> <span class=muted>" + Math.round(r.score * 100) + "%</span><br>" + esc(r.text.slice(0, 300)) + "</p>").join("") : "<p class=muted>无匹配</p>";
+		}).catch((err) => { $("results").textContent = err.message; });
+	} else if (f.dataset.cron) {
+		let schedule;
+		try { schedule = JSON.parse(f.schedule.value); } catch { alert("调度需为 JSON，如 {\\"kind\\":\\"cron\\",\\"expr\\":\\"0 9 * * *\\"}"); return; }
+		act(() => api("/api/cron/" + f.dataset.cron, { name: f.name.value, message: f.message.value, schedule }), ["cron", "status"]);
+	}
+});
+
+loadAll();
+setInterval(() => { if (!$("app").classList.contains("hidden")) loadTasks().catch(() => {}); }, 5000);
+</script>
+</body>
+</html>
+`;
@@ -0,0 +1,121 @@
+/**
+ * 审计日志 — 入站消息、指令、配置变更、Agent 执行与工具调用的只追加记录
+ *
+ * 按本地日期分文件（.audit/YYYY-MM-DD.jsonl），每行一条 JSON，只追加不改写、不自动清理。
+ * 查询从最新的文件往回读，导出直接拼接原始行。
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync, readdirSync } from "node:fs";
+import { resolve } from "node:path";
+
+// ── 类型 ──────────────────────────────────────────
+
+export type AuditKind = "message" | "command" | "config" | "agent" | "tool";
+
+export interface AuditEntry {
+	/** ISO 时间 */
+	ts: string;
+	kind: AuditKind;
+	/** 具体动作：receive / rejected / 指令 ID / start / end / 工具名 等 */
+	action: string;
+	accountId?: string;
+	chatId?: string;
+	/** 发起人 open_id（后台任务为空） */
+	senderId?: string;
+	/** 关联的 Agent 任务 ID（agent / tool 条目） */
+	taskId?: string;
+	detail?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+	since: number;
+	kinds?: AuditKind[];
+	senderId?: string;
+	chatId?: string;
+	taskId?: string;
+	/** 最多返回条数，缺省 20 */
+	limit?: number;
+}
+
+const FILE_PATTERN = /^(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+function localDate(ms: number): string {
+	const d = new Date(ms);
+	const pad = (n: number) => String(n).padStart(2, "0");
+	return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// ── 审计日志 ──────────────────────────────────────
+
+export class AuditLog {
+	private dir: string;
+	private log: (msg: string) => void;
+
+	constructor(dir: string, log?: (msg: string) => void) {
+		this.dir = dir;
+		this.log = log ?? ((msg) => console.warn(`[审计] ${msg}`));
+		mkdirSync(dir, { recursive: true, mode: 0o700 });
+	}
+
+	/** 追加一条记录；写入失败只告警，不影响主流程 */
+	append(entry: Omit<AuditEntry, "ts">): void {
+		const now = Date.now();
+		const line = JSON.stringify({ ts: new Date(now).toISOString(), ...entry });
+		try {
+			appendFileSync(resolve(this.dir, `${localDate(now)}.jsonl`), `${line}\n`, { mode: 0o600 });
+		} catch (e) {
+			this.log(`写入失败: ${e}`);
+		}
+	}
+
+	/** 按条件查询，最新的在前 */
+	query(q: AuditQuery): AuditEntry[] {
+		const limit = q.limit ?? 20;
+		const out: AuditEntry[] = [];
+		for (const file of this.files(q.since).reverse()) {
+			const lines = readFileSync(file, "utf-8").split("\n");
+			for (let i = lines.length - 1; i >= 0; i--) {
+				const line = lines[i]!;
+				if (!line) continue;
+				let entry: AuditEntry;
+				try {
+					entry = JSON.parse(line) as AuditEntry;
+				} catch {
+					continue;
+				}
+				if (Date.parse(entry.ts) < q.since) return out;
+				if (q.kinds && !q.kinds.includes(entry.kind)) continue;
+				if (q.senderId && entry.senderId !== q.senderId) continue;
+				if (q.chatId && entry.chatId !== q.chatId) continue;
+				if (q.taskId && entry.taskId !== q.taskId) continue;
+				out.push(entry);
+				if (out.length >= limit) return out;
+			}
+		}
+		return out;
+	}
+
+	/** since 当天及之后的日志文件（按日期升序） */
+	files(since: number): string[] {
+		if (!existsSync(this.dir)) return [];
+		const from = localDate(since);
+		return readdirSync(this.dir)
+			.map((name) => name.match(FILE_PATTERN)?.[1])
+			.filter((date): date is string => !!date && date >= from)
+			.sort()
+			.map((date) => resolve(this.dir, `${date}.jsonl`));
+	}
+
+	/** 导出 since 之后的原始 JSONL 行 */
+	export(since: number): string {
+		const sinceIso = new Date(since).toISOString();
+		return this.files(since)
+			.flatMap((file) => readFileSync(file, "utf-8").split("\n"))
+			.filter((line) => {
+				const ts = line.match(/^\{"ts":"([^"]+)"/)?.[1];
+				return !!ts && ts >= sinceIso;
+			})
+			.map((line) => `${line}\n`)
+			.join("");
+	}
+}
@@ -6,30 +6,17 @@
 
 import { Database } from "bun:sqlite";
 import { resolve } from "node:path";
-import { readFileSync, existsSync } from "node:fs";
-
-const RELAY_DIR = import.meta.dirname;
-const ENV_PATH = resolve(RELAY_DIR, ".env");
-const ROOT = resolve(RELAY_DIR, "..");
-const DB_PATH = resolve(ROOT, ".memory.sqlite");
-
-function loadEnv(): Record<string, string> {
-	if (!existsSync(ENV_PATH)) return {};
-	const env: Record<string, string> = {};
-	for (const line of readFileSync(ENV_PATH, "utf-8").split("\n")) {
-		const m = line.match(/^\s*([A-Z_][A-Z0-9_]*)\s*=\s*(.+?)\s*$/);
-		if (m) env[m[1]] = m[2].replace(/^["']|["']$/g, "");
-	}
-	return env;
-}
+import { ROOT_DIR, loadEnvConfig, loadOrExit } from "./config.js";
+
+const DB_PATH = resolve(ROOT_DIR, ".memory.sqlite");
 
 function textHash(text: string): string {
 	return Bun.hash(text).toString(16);
 }
 
-const env = loadEnv();
+const env = loadOrExit(() => loadEnvConfig({ required: false }));
 const apiKey = env.VOLC_EMBEDDING_API_KEY;
-const model = env.VOLC_EMBEDDING_MODEL || "doubao-embedding-vision-250615";
+const model = env.VOLC_EMBEDDING_MODEL;
 const endpoint = "https://ark.cn-beijing.volces.com/api/v3/embeddings/multimodal";
 
 if (!apiKey) {
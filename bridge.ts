@@ -11,50 +11,19 @@
  */
 
 import { spawn } from "node:child_process";
-import { readFileSync, watchFile } from "node:fs";
 import { resolve } from "node:path";
+import { ENV_PATH, loadEnvConfig, loadOrExit, watchConfigFile } from "./config.js";
 
-const HOME = process.env.HOME;
-if (!HOME) throw new Error("$HOME is not set");
+// ── .env 热更换（schema 与校验见 config.ts）────────
+let config = loadOrExit(() => loadEnvConfig({ warn: (msg) => console.warn(`[配置] ${msg}`) }));
+const AGENT_BIN = config.AGENT_BIN;
 
-const ENV_PATH = resolve(import.meta.dirname, ".env");
-const AGENT_BIN = process.env.AGENT_BIN || resolve(HOME, ".local/bin/agent");
-
-// ── .env 热更换 ──────────────────────────────────
-interface EnvConfig {
-	CURSOR_API_KEY: string;
-	CURSOR_MODEL: string;
-}
-
-function parseEnv(): EnvConfig {
-	const raw = readFileSync(ENV_PATH, "utf-8");
-	const env: Record<string, string> = {};
-	for (const line of raw.split("\n")) {
-		const trimmed = line.trim();
-		if (!trimmed || trimmed.startsWith("#")) continue;
-		const eqIdx = trimmed.indexOf("=");
-		if (eqIdx < 0) continue;
-		let val = trimmed.slice(eqIdx + 1).trim();
-		if ((val.startsWith('"') && val.endsWith('"')) || (val.startsWith("'") && val.endsWith("'"))) {
-			val = val.slice(1, -1);
-		}
-		env[trimmed.slice(0, eqIdx).trim()] = val;
-	}
-	return {
-		CURSOR_API_KEY: env.CURSOR_API_KEY || "",
-		CURSOR_MODEL: env.CURSOR_MODEL || "opus-4.6-thinking",
-	};
-}
-
-let config = parseEnv();
-
-watchFile(ENV_PATH, { interval: 2000 }, () => {
-	try {
-		config = parseEnv();
+watchConfigFile(ENV_PATH, 2000, () => loadEnvConfig(), {
+	onReload: (next) => {
+		config = next;
 		console.log(`[热更换] 已重新加载 (model=${config.CURSOR_MODEL})`);
-	} catch (e) {
-		console.error("[热更换] 读取失败:", e);
-	}
+	},
+	onError: (e) => console.error(`[热更换] 重新加载失败，继续使用当前配置: ${e.message}`),
 });
 
 // ── 进程保护 ──────────────────────────────────────
@@ -0,0 +1,448 @@
+/**
+ * 统一配置 — .env、projects.json 与 feishu.json 的加载、校验与热更新
+ *
+ * server.ts、bridge.ts、memory-tool.ts、backfill-embeddings.ts 共用同一份 schema：
+ * 每个字段声明默认值与校验规则，所有非法值汇总为一个 ConfigError，
+ * 启动时打印后退出，热更新时保留旧配置并由调用方通知。
+ *
+ * 优先级：进程环境变量 > .env > 默认值。
+ */
+
+import { existsSync, readFileSync, renameSync, watchFile, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { basename, isAbsolute, resolve } from "node:path";
+import type { FeishuConfig } from "./feishu/types.js";
+
+// ── 路径 ──────────────────────────────────────────
+
+export const RELAY_DIR = import.meta.dirname;
+export const ROOT_DIR = resolve(RELAY_DIR, "..");
+export const ENV_PATH = resolve(RELAY_DIR, ".env");
+export const PROJECTS_PATH = resolve(ROOT_DIR, "projects.json");
+export const FEISHU_CONFIG_PATH = resolve(RELAY_DIR, "feishu.json");
+
+// ── 类型 ──────────────────────────────────────────
+
+export class ConfigError extends Error {
+	readonly file: string;
+	readonly problems: string[];
+
+	constructor(file: string, problems: string[]) {
+		super(`${basename(file)} 配置有误:\n${problems.map((p) => `  - ${p}`).join("\n")}`);
+		this.name = "ConfigError";
+		this.file = file;
+		this.problems = problems;
+	}
+}
+
+interface Field<T> {
+	default: T;
+	/** 校验并转换原始值（已去掉首尾空白，非空）；非法时抛出说明 */
+	parse(raw: string): T;
+}
+
+export interface HourRange {
+	start: number;
+	end: number;
+}
+
+function text(def = ""): Field<string> {
+	return { default: def, parse: (raw) => raw };
+}
+
+function int(def: number, min: number, max?: number): Field<number> {
+	return {
+		default: def,
+		parse: (raw) => {
+			if (!/^-?\d+$/.test(raw)) throw new Error(`应为整数，实际为 "${raw}"`);
+			const n = Number(raw);
+			if (n < min || (max !== undefined && n > max)) {
+				throw new Error(max === undefined ? `不能小于 ${min}，实际为 ${n}` : `应在 ${min}-${max} 之间，实际为 ${n}`);
+			}
+			return n;
+		},
+	};
+}
+
+function flag(def: boolean): Field<boolean> {
+	return {
+		default: def,
+		parse: (raw) => {
+			if (/^(1|true|yes|on)$/i.test(raw)) return true;
+			if (/^(0|false|no|off)$/i.test(raw)) return false;
+			throw new Error(`应为 true 或 false，实际为 "${raw}"`);
+		},
+	};
+}
+
+// 「8-22」表示 8:00 到 22:00 之前，起止相同或留空为全天，支持跨零点（如 22-6）
+function hours(): Field<HourRange | undefined> {
+	return {
+		default: undefined,
+		parse: (raw) => {
+			const m = raw.match(/^(\d{1,2})\s*-\s*(\d{1,2})$/);
+			const start = Number(m?.[1]);
+			const end = Number(m?.[2]);
+			if (!m || start > 23 || end > 23) throw new Error(`应为「起始时-结束时」（0-23），如 8-22，实际为 "${raw}"`);
+			return { start, end };
+		},
+	};
+}
+
+// ── .env ──────────────────────────────────────────
+
+const ENV_SCHEMA = {
+	CURSOR_API_KEY: text(),
+	CURSOR_MODEL: text("opus-4.6-thinking"),
+	FEISHU_APP_ID: text(),
+	FEISHU_APP_SECRET: text(),
+	VOLC_STT_APP_ID: text(),
+	VOLC_STT_ACCESS_TOKEN: text(),
+	VOLC_EMBEDDING_API_KEY: text(),
+	VOLC_EMBEDDING_MODEL: text("doubao-embedding-vision-250615"),
+	// 以下两项只在启动时读取
+	AGENT_BIN: text(resolve(process.env.HOME || homedir(), ".local/bin/agent")),
+	WHISPER_CLI: text("whisper-cli"),
+	AGENT_TIMEOUT_MINUTES: int(30, 0),
+	AGENT_IDLE_TIMEOUT_MINUTES: int(10, 0),
+	AGENT_MAX_CONCURRENT: int(3, 0),
+	SHUTDOWN_DRAIN_SECONDS: int(60, 0),
+	AGENT_RESUME_ON_RESTART: flag(false),
+	HEARTBEAT_ENABLED: flag(true),
+	HEARTBEAT_INTERVAL_MINUTES: int(30, 1, 1440),
+	HEARTBEAT_ACTIVE_HOURS: hours(),
+	DISTILL_INTERVAL_HOURS: int(12, 1, 168),
+	METRICS_PORT: int(9803, 0, 65535),
+	METRICS_HOST: text("127.0.0.1"),
+	ADMIN_TOKEN: text(),
+	ADMIN_PORT: int(9804, 0, 65535),
+	ADMIN_HOST: text("127.0.0.1"),
+};
+
+type EnvKey = keyof typeof ENV_SCHEMA;
+
+export type EnvConfig = { [K in EnvKey]: (typeof ENV_SCHEMA)[K] extends Field<infer T> ? T : never };
+
+/** 解析 .env 文本：KEY=VALUE，支持 # 注释与成对引号 */
+export function parseEnvFile(raw: string): { values: Record<string, string>; problems: string[] } {
+	const values: Record<string, string> = {};
+	const problems: string[] = [];
+	raw.split("\n").forEach((line, i) => {
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith("#")) return;
+		const eqIdx = trimmed.indexOf("=");
+		if (eqIdx < 0) {
+			problems.push(`第 ${i + 1} 行缺少「=」: ${trimmed.slice(0, 40)}`);
+			return;
+		}
+		let val = trimmed.slice(eqIdx + 1).trim();
+		if ((val.startsWith('"') && val.endsWith('"')) || (val.startsWith("'") && val.endsWith("'"))) {
+			val = val.slice(1, -1);
+		}
+		values[trimmed.slice(0, eqIdx).trim()] = val;
+	});
+	return { values, problems };
+}
+
+// Bun 启动时会把 .env 读进 process.env；与首次读取的文件值相同的变量不算覆盖，
+// 否则热更新后旧值会一直压住 .env 里的新值
+let envOverrides: Partial<Record<EnvKey, string>> | undefined;
+
+function resolveOverrides(fileValues: Record<string, string>): Partial<Record<EnvKey, string>> {
+	if (!envOverrides) {
+		envOverrides = {};
+		for (const key of Object.keys(ENV_SCHEMA) as EnvKey[]) {
+			const v = process.env[key];
+			if (v !== undefined && v !== "" && v !== fileValues[key]) envOverrides[key] = v;
+		}
+	}
+	return envOverrides;
+}
+
+/**
+ * 读取并校验 .env（叠加进程环境变量）。
+ * required 为 false 时文件不存在按全默认值处理（CLI 工具）；未知键与无法解析的行通过 warn 提示
+ */
+export function loadEnvConfig(opts: { path?: string; required?: boolean; warn?: (msg: string) => void } = {}): EnvConfig {
+	const path = opts.path ?? ENV_PATH;
+	if (!existsSync(path)) {
+		if (opts.required !== false) throw new ConfigError(path, [`文件不存在: ${path}（可参考 .env.example）`]);
+	}
+	const { values, problems: lineProblems } = existsSync(path) ? parseEnvFile(readFileSync(path, "utf-8")) : { values: {}, problems: [] };
+	const overrides = resolveOverrides(values);
+	const problems: string[] = [];
+	const config: Record<string, unknown> = {};
+	for (const [key, field] of Object.entries(ENV_SCHEMA) as Array<[EnvKey, Field<unknown>]>) {
+		const raw = (overrides[key] ?? values[key] ?? "").trim();
+		if (!raw) {
+			config[key] = field.default;
+			continue;
+		}
+		try {
+			config[key] = field.parse(raw);
+		} catch (e) {
+			problems.push(`${key}${overrides[key] !== undefined ? "（环境变量）" : ""} ${e instanceof Error ? e.message : e}`);
+		}
+	}
+	if (problems.length > 0) throw new ConfigError(path, problems);
+	const unknown = Object.keys(values).filter((k) => !(k in ENV_SCHEMA));
+	for (const p of lineProblems) opts.warn?.(`${basename(path)} ${p}`);
+	if (unknown.length > 0) opts.warn?.(`${basename(path)} 中有未知配置项（拼写错误？）: ${unknown.join(", ")}`);
+	return config as EnvConfig;
+}
+
+// ── projects.json ─────────────────────────────────
+
+export interface ProjectConfig {
+	path: string;
+	description: string;
+	timeoutMinutes?: number;
+	idleTimeoutMinutes?: number;
+}
+
+export interface ProjectsConfig {
+	projects: Record<string, ProjectConfig>;
+	default_project: string;
+}
+
+/** 校验 projects.json 的内容，返回问题列表（空为通过） */
+export function validateProjectsConfig(data: unknown): string[] {
+	const problems: string[] = [];
+	const cfg = data as Partial<ProjectsConfig> | null;
+	if (!cfg || typeof cfg !== "object" || Array.isArray(cfg)) return ["顶层应为对象"];
+	if (!cfg.projects || typeof cfg.projects !== "object" || Array.isArray(cfg.projects)) {
+		problems.push("projects 应为对象（项目名 → 配置）");
+	} else {
+		const names = Object.keys(cfg.projects);
+		if (names.length === 0) problems.push("projects 至少需要一个项目");
+		for (const name of names) {
+			const p = cfg.projects[name] as Partial<ProjectConfig> | null;
+			if (!p || typeof p !== "object") {
+				problems.push(`projects.${name} 应为对象`);
+				continue;
+			}
+			if (typeof p.path !== "string" || !p.path.trim()) problems.push(`projects.${name}.path 不能为空`);
+			else if (!isAbsolute(p.path)) problems.push(`projects.${name}.path 应为绝对路径，实际为 "${p.path}"`);
+			if (p.description !== undefined && typeof p.description !== "string") problems.push(`projects.${name}.description 应为字符串`);
+			for (const key of ["timeoutMinutes", "idleTimeoutMinutes"] as const) {
+				const v = p[key];
+				if (v !== undefined && (typeof v !== "number" || !Number.isFinite(v) || v < 0)) {
+					problems.push(`projects.${name}.${key} 应为非负数字（0 为不限）`);
+				}
+			}
+		}
+		if (typeof cfg.default_project !== "string" || !cfg.default_project) {
+			problems.push("default_project 不能为空");
+		} else if (!names.includes(cfg.default_project)) {
+			problems.push(`default_project "${cfg.default_project}" 不在 projects 中（可选: ${names.join(", ")}）`);
+		}
+	}
+	return problems;
+}
+
+export function loadProjectsConfig(path = PROJECTS_PATH): ProjectsConfig {
+	if (!existsSync(path)) throw new ConfigError(path, [`文件不存在: ${path}`]);
+	let data: unknown;
+	try {
+		data = JSON.parse(readFileSync(path, "utf-8"));
+	} catch (e) {
+		throw new ConfigError(path, [`JSON 解析失败: ${e instanceof Error ? e.message : e}`]);
+	}
+	const problems = validateProjectsConfig(data);
+	if (problems.length > 0) throw new ConfigError(path, problems);
+	const cfg = data as ProjectsConfig;
+	for (const p of Object.values(cfg.projects)) p.description ??= "";
+	return cfg;
+}
+
+/** 校验后写回 projects.json：先写临时文件再改名，写入中途失败不会留下半个文件 */
+export function saveProjectsConfig(cfg: ProjectsConfig, path = PROJECTS_PATH): void {
+	const problems = validateProjectsConfig(cfg);
+	if (problems.length > 0) throw new ConfigError(path, problems);
+	const tmp = `${path}.tmp`;
+	writeFileSync(tmp, `${JSON.stringify(cfg, null, 2)}\n`);
+	renameSync(tmp, path);
+}
+
+// ── feishu.json ───────────────────────────────────
+// 结构同 FeishuConfig：顶层为 default 机器人，accounts.<id> 为其他机器人，groups.<chatId> 为单群配置
+
+interface ShapeContext {
+	problems: string[];
+	unknown: string[];
+}
+
+/** 校验 value 并把问题写入 ctx；path 为字段路径（如 accounts.team.allowFrom） */
+type Check = (value: unknown, path: string, ctx: ShapeContext) => void;
+
+function describeValue(v: unknown): string {
+	if (typeof v === "string") return JSON.stringify(v.slice(0, 40));
+	if (typeof v === "number" || typeof v === "boolean" || v === null) return String(v);
+	return Array.isArray(v) ? "数组" : typeof v;
+}
+
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+	return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function leaf(test: (v: unknown) => boolean, expected: string): Check {
+	return (v, path, ctx) => {
+		if (!test(v)) ctx.problems.push(`${path} 应为${expected}，实际为 ${describeValue(v)}`);
+	};
+}
+
+const str = leaf((v) => typeof v === "string", "字符串");
+const bool = leaf((v) => typeof v === "boolean", " true 或 false");
+const strList = leaf((v) => Array.isArray(v) && v.every((x) => typeof x === "string"), "字符串数组");
+
+function num(min: number, max?: number): Check {
+	return leaf(
+		(v) => typeof v === "number" && Number.isFinite(v) && v >= min && (max === undefined || v <= max),
+		max === undefined ? `不小于 ${min} 的数字` : ` ${min}-${max} 之间的数字`,
+	);
+}
+
+function oneOf(...values: string[]): Check {
+	return leaf((v) => values.includes(v as string), ` ${values.map((x) => `"${x}"`).join(" | ")} 之一`);
+}
+
+function shape(fields: Record<string, Check>): Check {
+	return (v, path, ctx) => {
+		if (!isPlainObject(v)) {
+			ctx.problems.push(`${path || "顶层"} 应为对象，实际为 ${describeValue(v)}`);
+			return;
+		}
+		for (const [key, value] of Object.entries(v)) {
+			const fieldPath = path ? `${path}.${key}` : key;
+			const check = fields[key];
+			if (check) check(value, fieldPath, ctx);
+			else ctx.unknown.push(fieldPath);
+		}
+	};
+}
+
+// 键名任意（账号 ID、群 ID、工具名），值统一校验
+function mapOf(check: Check): Check {
+	return (v, path, ctx) => {
+		if (!isPlainObject(v)) {
+			ctx.problems.push(`${path} 应为对象，实际为 ${describeValue(v)}`);
+			return;
+		}
+		for (const [key, value] of Object.entries(v)) check(value, `${path}.${key}`, ctx);
+	};
+}
+
+const HH_MM = leaf((v) => typeof v === "string" && /^([01]?\d|2[0-3]):[0-5]\d$/.test(v), "「时:分」格式（如 09:00）");
+const SESSION_SCOPE = oneOf("workspace", "chat", "sender", "thread");
+// 拼错的策略（如 "allowList"）必须报错，不能当作 open 放开
+const CHAT_POLICY = oneOf("open", "allowlist", "disabled");
+
+const GROUP_FIELDS: Record<string, Check> = {
+	requireMention: bool,
+	allowFrom: strList,
+	systemPrompt: str,
+	topicSessionMode: bool,
+	sessionScope: SESSION_SCOPE,
+	tools: shape({ allow: strList, deny: strList }),
+};
+
+// 顶层与 accounts.<id> 共用的字段
+const ACCOUNT_FIELDS: Record<string, Check> = {
+	appId: str,
+	appSecret: str,
+	encryptKey: str,
+	verificationToken: str,
+	enabled: bool,
+	domain: str,
+	connectionMode: oneOf("websocket", "webhook"),
+	webhookPath: str,
+	dmPolicy: CHAT_POLICY,
+	groupPolicy: CHAT_POLICY,
+	allowFrom: strList,
+	groupAllowFrom: strList,
+	requireMention: bool,
+	topicSessionMode: bool,
+	sessionScope: SESSION_SCOPE,
+	historyLimit: num(0),
+	mediaMaxMb: num(0),
+	renderMode: oneOf("auto", "raw", "card"),
+	streaming: bool,
+	statusReactions: bool,
+	tableMode: str,
+	textChunkLimit: num(0),
+	chunkMode: str,
+	groups: mapOf(shape(GROUP_FIELDS)),
+	roles: shape({
+		owner: strList,
+		admin: strList,
+		member: strList,
+		guest: strList,
+		defaultRole: oneOf("owner", "admin", "member", "guest"),
+	}),
+	defaultProject: str,
+	persona: str,
+	tools: mapOf(bool),
+};
+
+// webhookPort、webhookHost、usageSummary 仅顶层生效
+const FEISHU_SHAPE = shape({
+	...ACCOUNT_FIELDS,
+	webhookPort: num(0, 65535),
+	webhookHost: str,
+	usageSummary: shape({ enabled: bool, time: HH_MM, chatId: str }),
+	accounts: mapOf(shape({ ...ACCOUNT_FIELDS, name: str })),
+});
+
+/** 校验 feishu.json 的内容，返回问题列表（空为通过）；未知字段通过 warn 提示 */
+export function validateFeishuConfig(data: unknown, warn?: (msg: string) => void): string[] {
+	const ctx: ShapeContext = { problems: [], unknown: [] };
+	FEISHU_SHAPE(data, "", ctx);
+	if (ctx.unknown.length > 0) warn?.(`feishu.json 中有未知配置项（拼写错误？或仅顶层生效）: ${ctx.unknown.join(", ")}`);
+	return ctx.problems;
+}
+
+/** feishu.json 可选：不存在时为空配置（全部取默认值） */
+export function loadFeishuConfig(opts: { path?: string; warn?: (msg: string) => void } = {}): FeishuConfig {
+	const path = opts.path ?? FEISHU_CONFIG_PATH;
+	if (!existsSync(path)) return {};
+	let data: unknown;
+	try {
+		data = JSON.parse(readFileSync(path, "utf-8"));
+	} catch (e) {
+		throw new ConfigError(path, [`JSON 解析失败: ${e instanceof Error ? e.message : e}`]);
+	}
+	const problems = validateFeishuConfig(data, opts.warn);
+	if (problems.length > 0) throw new ConfigError(path, problems);
+	return data as FeishuConfig;
+}
+
+// ── 启动与热更新 ──────────────────────────────────
+
+/** 启动时加载：配置有误则打印全部问题并退出 */
+export function loadOrExit<T>(load: () => T): T {
+	try {
+		return load();
+	} catch (e) {
+		console.error(`[致命] ${e instanceof Error ? e.message : e}`);
+		process.exit(1);
+	}
+}
+
+/** 文件变化时重新加载；失败时保留旧配置，交给 onError（不再静默忽略） */
+export function watchConfigFile<T>(
+	path: string,
+	intervalMs: number,
+	load: () => T,
+	handlers: { onReload: (next: T) => void; onError: (err: Error) => void },
+): void {
+	watchFile(path, { interval: intervalMs }, () => {
+		let next: T;
+		try {
+			next = load();
+		} catch (e) {
+			handlers.onError(e instanceof Error ? e : new Error(String(e)));
+			return;
+		}
+		handlers.onReload(next);
+	});
+}
@@ -1,35 +1,55 @@
 /**
- * Feishu 账号管理 - 简化版本
- * 我们只使用单账号，所以大幅简化。
+ * Feishu 账号管理
+ * 顶层配置即 default 账号；accounts.<id> 覆盖顶层字段形成其他账号（凭据不继承）。
  */
 
 import type { ClawdbotConfig } from "./sdk-shim.js";
 import type { FeishuConfig, FeishuDomain, ResolvedFeishuAccount } from "./types.js";
 
-const DEFAULT_ACCOUNT_ID = "default";
+export const DEFAULT_ACCOUNT_ID = "default";
+
+function resolveFeishuSection(cfg: ClawdbotConfig): FeishuConfig {
+	const channels = (cfg as Record<string, unknown>).channels as Record<string, unknown> | undefined;
+	return (channels?.feishu ?? {}) as FeishuConfig;
+}
+
+export function listFeishuAccountIds(cfg: ClawdbotConfig): string[] {
+	const ids = Object.keys(resolveFeishuSection(cfg).accounts ?? {});
+	return ids.includes(DEFAULT_ACCOUNT_ID) ? ids : [DEFAULT_ACCOUNT_ID, ...ids];
+}
 
 export function resolveFeishuAccount(params: {
 	cfg: ClawdbotConfig;
 	accountId?: string | null;
 }): ResolvedFeishuAccount {
-	const feishuCfg = (params.cfg as Record<string, unknown>).channels as Record<string, unknown> | undefined;
-	const merged = (feishuCfg?.feishu ?? {}) as FeishuConfig;
+	const { accounts, ...base } = resolveFeishuSection(params.cfg);
+	const accountId = params.accountId || DEFAULT_ACCOUNT_ID;
+	const override = accounts?.[accountId] ?? {};
+	const { name, ...overrideConfig } = override;
+	const merged: FeishuConfig = { ...base, ...overrideConfig };
 
-	const appId = merged.appId?.trim();
-	const appSecret = merged.appSecret?.trim();
+	// 非 default 账号必须在自己的配置里写凭据，避免误用顶层机器人的身份
+	const creds = accountId === DEFAULT_ACCOUNT_ID ? merged : override;
+	const appId = creds.appId?.trim();
+	const appSecret = creds.appSecret?.trim();
+	const configured = Boolean(appId && appSecret);
 
 	return {
-		accountId: params.accountId || DEFAULT_ACCOUNT_ID,
-		enabled: Boolean(appId && appSecret),
-		configured: Boolean(appId && appSecret),
+		accountId,
+		enabled: configured && merged.enabled !== false,
+		configured,
+		name,
 		appId: appId,
 		appSecret: appSecret,
+		encryptKey: creds.encryptKey,
+		verificationToken: creds.verificationToken,
 		domain: (merged.domain as FeishuDomain) ?? "feishu",
 		config: merged,
 	};
 }
 
 export function listEnabledFeishuAccounts(cfg: ClawdbotConfig): ResolvedFeishuAccount[] {
-	const account = resolveFeishuAccount({ cfg });
-	return account.enabled ? [account] : [];
+	return listFeishuAccountIds(cfg)
+		.map((accountId) => resolveFeishuAccount({ cfg, accountId }))
+		.filter((account) => account.enabled);
 }
@@ -10,14 +10,42 @@ const clientCache = new Map<
   }
 >();
 
+const FEISHU_BASE_URL = "https://open.feishu.cn";
+const LARK_BASE_URL = "https://open.larksuite.com";
+
+/**
+ * Open platform origin for a domain setting: "feishu" (default), "lark"
+ * (larksuite.com) or a private-deployment URL. Custom values are normalised so
+ * "open.example.com", "https://open.example.com/" and ".../open-apis" all work.
+ */
+export function resolveFeishuBaseUrl(domain: FeishuDomain | undefined): string {
+  const raw = domain?.trim();
+  if (!raw || raw === "feishu") {
+    return FEISHU_BASE_URL;
+  }
+  if (raw === "lark") {
+    return LARK_BASE_URL;
+  }
+  const withScheme = /^https?:\/\//i.test(raw) ? raw : `https://${raw}`;
+  return withScheme.replace(/\/+$/, "").replace(/\/open-apis$/, "");
+}
+
+/**
+ * Base URL for raw `fetch` calls that bypass the SDK client (e.g. CardKit).
+ */
+export function resolveFeishuApiBase(domain: FeishuDomain | undefined): string {
+  return `${resolveFeishuBaseUrl(domain)}/open-apis`;
+}
+
 function resolveDomain(domain: FeishuDomain | undefined): Lark.Domain | string {
-  if (domain === "lark") {
+  const baseUrl = resolveFeishuBaseUrl(domain);
+  if (baseUrl === LARK_BASE_URL) {
     return Lark.Domain.Lark;
   }
-  if (domain === "feishu" || !domain) {
+  if (baseUrl === FEISHU_BASE_URL) {
     return Lark.Domain.Feishu;
   }
-  return domain.replace(/\/+$/, ""); // Custom URL for private deployment
+  return baseUrl; // Custom URL for private deployment
 }
 
 /**
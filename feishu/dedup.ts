@@ -9,6 +9,15 @@ const FILE_MAX_ENTRIES = 10_000;
 
 const memoryDedupe = createDedupeCache({ ttlMs: DEDUP_TTL_MS, maxSize: MEMORY_MAX_SIZE });
 
+let dedupDirOverride: string | undefined;
+
+/**
+ * Store dedup files in `dir` instead of `<state dir>/feishu/dedup`.
+ */
+export function setFeishuDedupDir(dir: string): void {
+  dedupDirOverride = dir;
+}
+
 function resolveStateDirFromEnv(env: NodeJS.ProcessEnv = process.env): string {
   const stateOverride = env.OPENCLAW_STATE_DIR?.trim() || env.CLAWDBOT_STATE_DIR?.trim();
   if (stateOverride) {
@@ -22,7 +31,8 @@ function resolveStateDirFromEnv(env: NodeJS.ProcessEnv = process.env): string {
 
 function resolveNamespaceFilePath(namespace: string): string {
   const safe = namespace.replace(/[^a-zA-Z0-9_-]/g, "_");
-  return path.join(resolveStateDirFromEnv(), "feishu", "dedup", `${safe}.json`);
+  const dir = dedupDirOverride ?? path.join(resolveStateDirFromEnv(), "feishu", "dedup");
+  return path.join(dir, `${safe}.json`);
 }
 
 const persistentDedupe = createPersistentDedupe({
@@ -264,9 +264,11 @@ export async function sendImageFeishu(params: {
   to: string;
   imageKey: string;
   replyToMessageId?: string;
+  /** Reply as a thread (topic) instead of quoting in the main chat */
+  replyInThread?: boolean;
   accountId?: string;
 }): Promise<SendMediaResult> {
-  const { cfg, to, imageKey, replyToMessageId, accountId } = params;
+  const { cfg, to, imageKey, replyToMessageId, replyInThread, accountId } = params;
   const { client, receiveId, receiveIdType } = resolveFeishuSendTarget({
     cfg,
     to,
@@ -280,6 +282,7 @@ export async function sendImageFeishu(params: {
       data: {
         content,
         msg_type: "image",
+        reply_in_thread: replyInThread,
       },
     });
     assertFeishuMessageApiSuccess(response, "Feishu image reply failed");
@@ -308,9 +311,11 @@ export async function sendFileFeishu(params: {
   /** Use "media" for audio/video files, "file" for documents */
   msgType?: "file" | "media";
   replyToMessageId?: string;
+  /** Reply as a thread (topic) instead of quoting in the main chat */
+  replyInThread?: boolean;
   accountId?: string;
 }): Promise<SendMediaResult> {
-  const { cfg, to, fileKey, replyToMessageId, accountId } = params;
+  const { cfg, to, fileKey, replyToMessageId, replyInThread, accountId } = params;
   const msgType = params.msgType ?? "file";
   const { client, receiveId, receiveIdType } = resolveFeishuSendTarget({
     cfg,
@@ -325,6 +330,7 @@ export async function sendFileFeishu(params: {
       data: {
         content,
         msg_type: msgType,
+        reply_in_thread: replyInThread,
       },
     });
     assertFeishuMessageApiSuccess(response, "Feishu file reply failed");
@@ -384,9 +390,10 @@ export async function sendMediaFeishu(params: {
   mediaBuffer?: Buffer;
   fileName?: string;
   replyToMessageId?: string;
+  replyInThread?: boolean;
   accountId?: string;
 }): Promise<SendMediaResult> {
-  const { cfg, to, mediaUrl, mediaBuffer, fileName, replyToMessageId, accountId } = params;
+  const { cfg, to, mediaUrl, mediaBuffer, fileName, replyToMessageId, replyInThread, accountId } = params;
   const account = resolveFeishuAccount({ cfg, accountId });
   if (!account.configured) {
     throw new Error(`Feishu account "${account.accountId}" not configured`);
@@ -417,7 +424,7 @@ export async function sendMediaFeishu(params: {
 
   if (isImage) {
     const { imageKey } = await uploadImageFeishu({ cfg, image: buffer, accountId });
-    return sendImageFeishu({ cfg, to, imageKey, replyToMessageId, accountId });
+    return sendImageFeishu({ cfg, to, imageKey, replyToMessageId, replyInThread, accountId });
   } else {
     const fileType = detectFileType(name);
     const { fileKey } = await uploadFileFeishu({
@@ -435,6 +442,7 @@ export async function sendMediaFeishu(params: {
       fileKey,
       msgType: isMedia ? "media" : "file",
       replyToMessageId,
+      replyInThread,
       accountId,
     });
   }
@@ -93,12 +93,13 @@ export function isMentionForwardRequest(event: FeishuMessageEvent, botOpenId?: s
 export function extractMessageBody(text: string, allMentionKeys: string[]): string {
   let result = text;
 
-  // Remove all @ placeholders
+  // Remove all @ placeholders (and the spaces right after them).
+  // Other whitespace is kept so multi-line prompts and code indentation survive.
   for (const key of allMentionKeys) {
-    result = result.replace(new RegExp(escapeRegExp(key), "g"), "");
+    result = result.replace(new RegExp(`${escapeRegExp(key)}[^\\S\\n]*`, "g"), "");
   }
 
-  return result.replace(/\s+/g, " ").trim();
+  return result.trim();
 }
 
 /**
@@ -155,6 +155,12 @@ export const FeishuEmoji = {
   CROSS: "CROSS",
   QUESTION: "QUESTION",
   EXCLAMATION: "EXCLAMATION",
+  // Status
+  TYPING: "Typing",
+  ONE_SECOND: "OneSecond",
+  DONE: "DONE",
+  CHECK_MARK: "CheckMark",
+  CROSS_MARK: "CrossMark",
 } as const;
 
 export type FeishuEmojiType = (typeof FeishuEmoji)[keyof typeof FeishuEmoji];
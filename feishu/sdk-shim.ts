@@ -5,7 +5,7 @@
  * 这样我们可以复用 OpenClaw 飞书插件的代码，而不依赖完整的 openclaw 包。
  */
 
-import { mkdirSync, readFileSync, writeFileSync, unlinkSync, rmdirSync } from "node:fs";
+import { mkdirSync, readFileSync, writeFileSync, unlinkSync, rmdirSync, renameSync } from "node:fs";
 import { dirname, join } from "node:path";
 import { tmpdir, homedir } from "node:os";
 
@@ -57,9 +57,13 @@ export function createDedupeCache(opts: { ttlMs: number; maxSize: number }) {
 	return {
 		check(key: string): boolean {
 			const now = Date.now();
-			// 清理过期
+			// 清理过期；仍超限时按写入顺序淘汰最旧的
 			if (cache.size > opts.maxSize) {
 				for (const [k, t] of cache) if (now - t > opts.ttlMs) cache.delete(k);
+				for (const k of cache.keys()) {
+					if (cache.size <= opts.maxSize) break;
+					cache.delete(k);
+				}
 			}
 			if (cache.has(key)) {
 				const ts = cache.get(key)!;
@@ -91,19 +95,21 @@ export function createPersistentDedupe(opts: {
 		}
 	}
 
+	// 写盘失败向上抛出，由 checkAndRecord 交给 onDiskError
 	function saveFile(ns: string, data: PersistentDedupeFileData): void {
 		const fp = opts.resolveFilePath(ns);
-		try {
-			mkdirSync(dirname(fp), { recursive: true });
-			// 清理过期和超限
-			const now = Date.now();
-			const entries = Object.fromEntries(
-				Object.entries(data.entries)
-					.filter(([, t]) => now - t < opts.ttlMs)
-					.slice(-opts.fileMaxEntries),
-			);
-			writeFileSync(fp, JSON.stringify({ entries }));
-		} catch {}
+		mkdirSync(dirname(fp), { recursive: true });
+		// 清理过期和超限
+		const now = Date.now();
+		const entries = Object.fromEntries(
+			Object.entries(data.entries)
+				.filter(([, t]) => now - t < opts.ttlMs)
+				.slice(-opts.fileMaxEntries),
+		);
+		// 先写临时文件再改名，进程中途退出也不会留下半截 JSON
+		const tmp = `${fp}.tmp`;
+		writeFileSync(tmp, JSON.stringify({ entries }));
+		renameSync(tmp, fp);
 	}
 
 	return {
@@ -111,8 +117,8 @@ export function createPersistentDedupe(opts: {
 			key: string,
 			ctx: { namespace?: string; onDiskError?: (err: unknown) => void },
 		): Promise<boolean> {
-			if (memory.check(key)) return false;
 			const ns = ctx.namespace || "global";
+			if (memory.check(`${ns}:${key}`)) return false;
 			try {
 				const data = loadFile(ns);
 				const ts = data.entries[key];
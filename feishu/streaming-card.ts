@@ -3,24 +3,26 @@
  */
 
 import type { Client } from "@larksuiteoapi/node-sdk";
+import { resolveFeishuApiBase } from "./client.js";
 import type { FeishuDomain } from "./types.js";
 
 type Credentials = { appId: string; appSecret: string; domain?: FeishuDomain };
 type CardState = { cardId: string; messageId: string; sequence: number; currentText: string };
+type CardHeader = { title?: string; color?: string };
+
+export type StreamingStartOptions = {
+  /** Reply to this message instead of sending a new message to receiveId */
+  replyToMessageId?: string;
+  replyInThread?: boolean;
+  header?: CardHeader;
+  initialText?: string;
+  /** Extra card elements (e.g. buttons) shown below the streamed text until the card is closed */
+  extraElements?: Record<string, unknown>[];
+};
 
 // Token cache (keyed by domain + appId)
 const tokenCache = new Map<string, { token: string; expiresAt: number }>();
 
-function resolveApiBase(domain?: FeishuDomain): string {
-  if (domain === "lark") {
-    return "https://open.larksuite.com/open-apis";
-  }
-  if (domain && domain !== "feishu" && domain.startsWith("http")) {
-    return `${domain.replace(/\/+$/, "")}/open-apis`;
-  }
-  return "https://open.feishu.cn/open-apis";
-}
-
 async function getToken(creds: Credentials): Promise<string> {
   const key = `${creds.domain ?? "feishu"}|${creds.appId}`;
   const cached = tokenCache.get(key);
@@ -28,7 +30,7 @@ async function getToken(creds: Credentials): Promise<string> {
     return cached.token;
   }
 
-  const res = await fetch(`${resolveApiBase(creds.domain)}/auth/v3/tenant_access_token/internal`, {
+  const res = await fetch(`${resolveFeishuApiBase(creds.domain)}/auth/v3/tenant_access_token/internal`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({ app_id: creds.appId, app_secret: creds.appSecret }),
@@ -57,6 +59,32 @@ function truncateSummary(text: string, max = 50): string {
   return clean.length <= max ? clean : clean.slice(0, max - 3) + "...";
 }
 
+function buildCardJson(
+  text: string,
+  opts: { header?: CardHeader; streaming: boolean; summary: string; extraElements?: Record<string, unknown>[] },
+) {
+  const card: Record<string, unknown> = {
+    schema: "2.0",
+    config: {
+      streaming_mode: opts.streaming,
+      summary: { content: opts.summary },
+      ...(opts.streaming
+        ? { streaming_config: { print_frequency_ms: { default: 50 }, print_step: { default: 2 } } }
+        : {}),
+    },
+    body: {
+      elements: [{ tag: "markdown", content: text, element_id: "content" }, ...(opts.extraElements ?? [])],
+    },
+  };
+  if (opts.header) {
+    card.header = {
+      template: opts.header.color || "blue",
+      ...(opts.header.title ? { title: { tag: "plain_text", content: opts.header.title } } : {}),
+    };
+  }
+  return card;
+}
+
 /** Streaming card session manager */
 export class FeishuStreamingSession {
   private client: Client;
@@ -68,6 +96,7 @@ export class FeishuStreamingSession {
   private lastUpdateTime = 0;
   private pendingText: string | null = null;
   private updateThrottleMs = 100; // Throttle updates to max 10/sec
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor(client: Client, creds: Credentials, log?: (msg: string) => void) {
     this.client = client;
@@ -78,23 +107,19 @@ export class FeishuStreamingSession {
   async start(
     receiveId: string,
     receiveIdType: "open_id" | "user_id" | "union_id" | "email" | "chat_id" = "chat_id",
+    opts?: StreamingStartOptions,
   ): Promise<void> {
     if (this.state) {
       return;
     }
 
-    const apiBase = resolveApiBase(this.creds.domain);
-    const cardJson = {
-      schema: "2.0",
-      config: {
-        streaming_mode: true,
-        summary: { content: "[Generating...]" },
-        streaming_config: { print_frequency_ms: { default: 50 }, print_step: { default: 2 } },
-      },
-      body: {
-        elements: [{ tag: "markdown", content: "⏳ Thinking...", element_id: "content" }],
-      },
-    };
+    const apiBase = resolveFeishuApiBase(this.creds.domain);
+    const cardJson = buildCardJson(opts?.initialText ?? "⏳ Thinking...", {
+      header: opts?.header,
+      streaming: true,
+      summary: "[Generating...]",
+      extraElements: opts?.extraElements,
+    });
 
     // Create card entity
     const createRes = await fetch(`${apiBase}/cardkit/v1/cards`, {
@@ -115,15 +140,17 @@ export class FeishuStreamingSession {
     }
     const cardId = createData.data.card_id;
 
-    // Send card message
-    const sendRes = await this.client.im.message.create({
-      params: { receive_id_type: receiveIdType },
-      data: {
-        receive_id: receiveId,
-        msg_type: "interactive",
-        content: JSON.stringify({ type: "card", data: { card_id: cardId } }),
-      },
-    });
+    // Send card message (as a reply when requested)
+    const content = JSON.stringify({ type: "card", data: { card_id: cardId } });
+    const sendRes = opts?.replyToMessageId
+      ? await this.client.im.message.reply({
+          path: { message_id: opts.replyToMessageId },
+          data: { msg_type: "interactive", content, reply_in_thread: opts.replyInThread },
+        })
+      : await this.client.im.message.create({
+          params: { receive_id_type: receiveIdType },
+          data: { receive_id: receiveId, msg_type: "interactive", content },
+        });
     if (sendRes.code !== 0 || !sendRes.data?.message_id) {
       throw new Error(`Send card failed: ${sendRes.msg}`);
     }
@@ -136,7 +163,7 @@ export class FeishuStreamingSession {
     if (!this.state) {
       return;
     }
-    const apiBase = resolveApiBase(this.creds.domain);
+    const apiBase = resolveFeishuApiBase(this.creds.domain);
     this.state.sequence += 1;
     await fetch(`${apiBase}/cardkit/v1/cards/${this.state.cardId}/elements/content/content`, {
       method: "PUT",
@@ -160,6 +187,13 @@ export class FeishuStreamingSession {
     const now = Date.now();
     if (now - this.lastUpdateTime < this.updateThrottleMs) {
       this.pendingText = text;
+      // Flush the latest text once the window passes, so a pause in output doesn't leave it stale
+      this.flushTimer ??= setTimeout(() => {
+        this.flushTimer = null;
+        if (this.pendingText !== null) {
+          void this.update(this.pendingText);
+        }
+      }, this.updateThrottleMs - (now - this.lastUpdateTime));
       return;
     }
     this.pendingText = null;
@@ -175,16 +209,57 @@ export class FeishuStreamingSession {
     await this.queue;
   }
 
-  async close(finalText?: string): Promise<void> {
+  /**
+   * End streaming. With `header`, the whole card is replaced (final text + new header)
+   * in one full update; returns false if Feishu rejected it (e.g. card too large).
+   */
+  async close(finalText?: string, header?: CardHeader): Promise<boolean> {
     if (!this.state || this.closed) {
-      return;
+      return false;
     }
     this.closed = true;
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
     await this.queue;
 
     // Use finalText, or pending throttled text, or current text
     const text = finalText ?? this.pendingText ?? this.state.currentText;
-    const apiBase = resolveApiBase(this.creds.domain);
+    const apiBase = resolveFeishuApiBase(this.creds.domain);
+
+    if (header) {
+      this.state.sequence += 1;
+      const cardJson = buildCardJson(text, { header, streaming: false, summary: truncateSummary(text) });
+      const ok = await fetch(`${apiBase}/cardkit/v1/cards/${this.state.cardId}`, {
+        method: "PUT",
+        headers: {
+          Authorization: `Bearer ${await getToken(this.creds)}`,
+          "Content-Type": "application/json; charset=utf-8",
+        },
+        body: JSON.stringify({
+          card: { type: "card_json", data: JSON.stringify(cardJson) },
+          sequence: this.state.sequence,
+          uuid: `f_${this.state.cardId}_${this.state.sequence}`,
+        }),
+      })
+        .then(async (res) => {
+          const data = (await res.json()) as { code: number; msg: string };
+          if (data.code !== 0) {
+            this.log?.(`Final update failed: ${data.msg}`);
+          }
+          return data.code === 0;
+        })
+        .catch((e) => {
+          this.log?.(`Final update failed: ${String(e)}`);
+          return false;
+        });
+      if (ok) {
+        this.state.currentText = text;
+      }
+      this.log?.(`Closed streaming: cardId=${this.state.cardId}`);
+      return ok;
+    }
 
     // Only send final update if content differs from what's already displayed
     if (text && text !== this.state.currentText) {
@@ -210,6 +285,11 @@ export class FeishuStreamingSession {
     }).catch((e) => this.log?.(`Close failed: ${String(e)}`));
 
     this.log?.(`Closed streaming: cardId=${this.state.cardId}`);
+    return true;
+  }
+
+  getMessageId(): string | undefined {
+    return this.state?.messageId;
   }
 
   isActive(): boolean {
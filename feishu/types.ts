@@ -6,6 +6,7 @@ import type { MentionTarget } from "./mention.js";
 
 export type FeishuDomain = "feishu" | "lark" | (string & {});
 export type FeishuConnectionMode = "websocket" | "webhook";
+export type FeishuSessionScope = "workspace" | "chat" | "sender" | "thread";
 
 export type FeishuConfig = {
 	appId?: string;
@@ -15,29 +16,64 @@ export type FeishuConfig = {
 	enabled?: boolean;
 	domain?: FeishuDomain;
 	connectionMode?: FeishuConnectionMode;
+	/** webhook 模式的回调路径，缺省 /feishu/events（非 default 账号为 /feishu/events/<账号>） */
+	webhookPath?: string;
+	/** webhook 模式 HTTP 服务端口（仅顶层生效，所有账号共用），缺省 9802 */
+	webhookPort?: number;
+	/** webhook 模式 HTTP 服务监听地址（仅顶层生效），缺省 127.0.0.1；反向代理在其他主机时改为 0.0.0.0 */
+	webhookHost?: string;
 	dmPolicy?: string;
 	groupPolicy?: string;
 	allowFrom?: string[];
 	groupAllowFrom?: string[];
 	requireMention?: boolean;
 	topicSessionMode?: boolean;
+	sessionScope?: FeishuSessionScope;
 	historyLimit?: number;
 	mediaMaxMb?: number;
 	renderMode?: "auto" | "raw" | "card";
 	streaming?: boolean;
+	/** 在用户消息上用表情标记任务状态（排队/处理中/完成/失败），默认开启 */
+	statusReactions?: boolean;
 	tableMode?: string;
 	textChunkLimit?: number;
 	chunkMode?: string;
 	groups?: Record<string, FeishuGroupConfig>;
+	roles?: FeishuRolesConfig;
+	/** 未写「项目名:」前缀时使用的项目（projects.json 中的名称），缺省为 default_project */
+	defaultProject?: string;
+	/** 新会话首条消息前附加的人设说明（多机器人时区分个人/团队机器人） */
+	persona?: string;
+	/** 每日用量汇总卡片（仅顶层生效，由 default 机器人发送） */
+	usageSummary?: FeishuUsageSummaryConfig;
 	accounts?: Record<string, FeishuAccountConfig>;
 	tools?: Record<string, boolean>;
 };
 
+/** 每天 time（HH:MM，本地时间，缺省 09:00）后推送前一天的用量；chatId 缺省为最近活跃会话 */
+export type FeishuUsageSummaryConfig = {
+	enabled?: boolean;
+	time?: string;
+	chatId?: string;
+};
+
+export type FeishuRole = "owner" | "admin" | "member" | "guest";
+
+/** 角色 → open_id 列表；未列出的用户取 defaultRole（缺省 member） */
+export type FeishuRolesConfig = {
+	owner?: string[];
+	admin?: string[];
+	member?: string[];
+	guest?: string[];
+	defaultRole?: FeishuRole;
+};
+
 export type FeishuGroupConfig = {
 	requireMention?: boolean;
 	allowFrom?: string[];
 	systemPrompt?: string;
 	topicSessionMode?: boolean;
+	sessionScope?: FeishuSessionScope;
 	tools?: { allow?: string[]; deny?: string[] };
 };
 
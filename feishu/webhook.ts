@@ -0,0 +1,152 @@
+import crypto from "node:crypto";
+import * as Lark from "@larksuiteoapi/node-sdk";
+import { DEFAULT_ACCOUNT_ID } from "./accounts.js";
+import type { ResolvedFeishuAccount } from "./types.js";
+
+export const DEFAULT_WEBHOOK_PATH = "/feishu/events";
+export const DEFAULT_WEBHOOK_PORT = 9802;
+export const DEFAULT_WEBHOOK_HOST = "127.0.0.1";
+
+// Reject signed requests whose timestamp is further than this from local time (replay protection).
+const MAX_CLOCK_SKEW_SECONDS = 5 * 60;
+
+export type FeishuWebhookHandler = (req: Request) => Promise<Response>;
+
+/**
+ * Webhook path for an account: `webhookPath` if configured, otherwise
+ * `/feishu/events` for the default account and `/feishu/events/<accountId>` for others.
+ */
+export function resolveFeishuWebhookPath(account: ResolvedFeishuAccount): string {
+  const configured = account.config.webhookPath?.trim();
+  if (configured) {
+    return configured.startsWith("/") ? configured : `/${configured}`;
+  }
+  return account.accountId === DEFAULT_ACCOUNT_ID
+    ? DEFAULT_WEBHOOK_PATH
+    : `${DEFAULT_WEBHOOK_PATH}/${account.accountId}`;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Verify `X-Lark-Signature` = sha256(timestamp + nonce + encryptKey + rawBody).
+ * Computed over the raw body: re-serialising parsed JSON does not reproduce Feishu's bytes.
+ */
+export function verifyFeishuSignature(params: {
+  encryptKey: string;
+  rawBody: string;
+  timestamp?: string | null;
+  nonce?: string | null;
+  signature?: string | null;
+  nowMs?: number;
+}): boolean {
+  const { encryptKey, rawBody, timestamp, nonce, signature } = params;
+  if (!timestamp || !nonce || !signature) {
+    return false;
+  }
+  const ts = Number(timestamp);
+  const now = Math.floor((params.nowMs ?? Date.now()) / 1000);
+  if (!Number.isFinite(ts) || Math.abs(now - ts) > MAX_CLOCK_SKEW_SECONDS) {
+    return false;
+  }
+  const expected = crypto
+    .createHash("sha256")
+    .update(timestamp + nonce + encryptKey + rawBody)
+    .digest("hex");
+  return safeEqual(expected, signature);
+}
+
+function extractToken(payload: Record<string, unknown>): string | undefined {
+  const header = payload.header as Record<string, unknown> | undefined;
+  const token = header?.token ?? payload.token;
+  return typeof token === "string" ? token : undefined;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body ?? {}), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * HTTP event endpoint for one account (connectionMode = "webhook").
+ *
+ * Handles signature checking (when encryptKey is set), payload decryption,
+ * verification-token checking and the url_verification challenge, then feeds
+ * the event into the same dispatcher the WebSocket client uses.
+ */
+export function createFeishuWebhookHandler(params: {
+  account: ResolvedFeishuAccount;
+  dispatcher: Lark.EventDispatcher;
+  log?: (msg: string) => void;
+}): FeishuWebhookHandler {
+  const { account, dispatcher } = params;
+  const log = params.log ?? console.warn;
+  // Without either secret anyone who can reach the port could post forged events.
+  if (!account.encryptKey && !account.verificationToken) {
+    throw new Error(`webhook account ${account.accountId} needs encryptKey or verificationToken`);
+  }
+  const cipher = account.encryptKey ? new Lark.AESCipher(account.encryptKey) : null;
+
+  return async (req) => {
+    if (req.method !== "POST") {
+      return json({ msg: "method not allowed" }, 405);
+    }
+    const rawBody = await req.text();
+
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(rawBody) as Record<string, unknown>;
+      if (typeof payload.encrypt === "string") {
+        if (!cipher) {
+          log(`[webhook] ${account.accountId}: encrypted event but encryptKey is not configured`);
+          return json({ msg: "encryptKey not configured" }, 400);
+        }
+        payload = JSON.parse(cipher.decrypt(payload.encrypt)) as Record<string, unknown>;
+      }
+    } catch {
+      return json({ msg: "invalid payload" }, 400);
+    }
+
+    if (account.verificationToken) {
+      const token = extractToken(payload);
+      if (!token || !safeEqual(token, account.verificationToken)) {
+        log(`[webhook] ${account.accountId}: verification token mismatch`);
+        return json({ msg: "invalid token" }, 401);
+      }
+    }
+
+    // URL verification is sent unsigned when the request URL is saved in the developer console
+    if (payload.type === "url_verification") {
+      return json({ challenge: payload.challenge });
+    }
+
+    if (account.encryptKey) {
+      const signed = verifyFeishuSignature({
+        encryptKey: account.encryptKey,
+        rawBody,
+        timestamp: req.headers.get("x-lark-request-timestamp"),
+        nonce: req.headers.get("x-lark-request-nonce"),
+        signature: req.headers.get("x-lark-signature"),
+      });
+      if (!signed) {
+        log(`[webhook] ${account.accountId}: signature check failed`);
+        return json({ msg: "invalid signature" }, 401);
+      }
+    }
+
+    // Already verified and decrypted above; the dispatcher only needs to route it.
+    const data = Object.assign(Object.create({ headers: Object.fromEntries(req.headers) }), payload);
+    try {
+      return json(await dispatcher.invoke(data, { needCheck: false }));
+    } catch (err) {
+      log(`[webhook] ${account.accountId}: handler failed: ${err instanceof Error ? err.message : String(err)}`);
+      return json({ msg: "handler error" }, 500);
+    }
+  };
+}
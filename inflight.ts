@@ -0,0 +1,122 @@
+/**
+ * 进行中的对话任务 — 持久化排队中 / 运行中的飞书对话，服务重启后恢复
+ *
+ * 每个对话任务进入队列时写入 .inflight.json，正常结束（完成、失败、取消）时删除。
+ * 重启后文件里仍是 queued / running 的即为被中断的任务：由调用方把原卡片改为「已中断」
+ * 并附「重新执行」按钮，或直接自动重新执行。已中断的记录保留到被重新执行或过期。
+ */
+
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+
+// ── 类型 ──────────────────────────────────────────
+
+export type InflightState = "queued" | "running" | "interrupted";
+
+export interface InflightRun {
+	/** 任务队列 ID */
+	taskId: string;
+	accountId: string;
+	chatId: string;
+	chatType: string;
+	/** 用户原消息 ID（回复目标） */
+	messageId: string;
+	senderOpenId: string;
+	rootId?: string;
+	/** 状态卡片的消息 ID（流式卡片同样记录消息 ID） */
+	cardId?: string;
+	workspace: string;
+	sessionKey: string;
+	/** 开始执行时续接的 Cursor 会话 ID（新会话为空） */
+	sessionId?: string;
+	/** 用户的原始提问（卡片展示用） */
+	prompt: string;
+	/** 实际发给 Agent 的内容（含引用上下文、附件路径） */
+	agentPrompt: string;
+	label: string;
+	state: InflightState;
+	enqueuedAt: number;
+	startedAt?: number;
+	interruptedAt?: number;
+}
+
+interface InflightFile {
+	version: 1;
+	runs: InflightRun[];
+}
+
+// ── 存储 ──────────────────────────────────────────
+
+export class InflightStore {
+	private runs = new Map<string, InflightRun>();
+	private path: string;
+	private log: (msg: string) => void;
+
+	constructor(path: string, log?: (msg: string) => void) {
+		this.path = path;
+		this.log = log ?? ((msg) => console.warn(`[恢复] ${msg}`));
+		try {
+			if (existsSync(path)) {
+				const file = JSON.parse(readFileSync(path, "utf-8")) as InflightFile;
+				for (const run of file.runs ?? []) this.runs.set(run.taskId, run);
+			}
+		} catch (e) {
+			this.log(`读取 ${path} 失败，忽略: ${e}`);
+		}
+	}
+
+	add(run: Omit<InflightRun, "state" | "enqueuedAt">): void {
+		this.runs.set(run.taskId, { ...run, state: "queued", enqueuedAt: Date.now() });
+		this.save();
+	}
+
+	update(taskId: string, patch: Partial<Omit<InflightRun, "taskId">>): void {
+		const run = this.runs.get(taskId);
+		if (!run) return;
+		Object.assign(run, patch);
+		this.save();
+	}
+
+	remove(taskId: string): void {
+		if (this.runs.delete(taskId)) this.save();
+	}
+
+	get(taskId: string): InflightRun | undefined {
+		return this.runs.get(taskId);
+	}
+
+	list(): InflightRun[] {
+		return [...this.runs.values()];
+	}
+
+	/**
+	 * 启动时调用：上次残留的 queued / running 记录标记为 interrupted 并返回（按入队顺序）；
+	 * 中断超过 maxAgeMs 的旧记录直接清理
+	 */
+	recover(maxAgeMs: number): InflightRun[] {
+		const now = Date.now();
+		const recovered: InflightRun[] = [];
+		for (const run of this.runs.values()) {
+			if (run.state === "interrupted") {
+				if (now - (run.interruptedAt ?? run.enqueuedAt) > maxAgeMs) this.runs.delete(run.taskId);
+				continue;
+			}
+			run.state = "interrupted";
+			run.interruptedAt = now;
+			recovered.push(run);
+		}
+		this.save();
+		return recovered.sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+	}
+
+	// 先写临时文件再改名，进程在写入中途被杀也不会留下半个文件
+	private save(): void {
+		const file: InflightFile = { version: 1, runs: [...this.runs.values()] };
+		const tmp = `${this.path}.tmp`;
+		try {
+			writeFileSync(tmp, JSON.stringify(file, null, 2), { mode: 0o600 });
+			renameSync(tmp, this.path);
+		} catch (e) {
+			this.log(`写入失败: ${e}`);
+		}
+	}
+}
@@ -10,39 +10,23 @@
  *   bun memory-tool.ts index                          # 重建索引
  */
 
-import { resolve } from "node:path";
-import { readFileSync, existsSync } from "node:fs";
+import { ROOT_DIR, loadEnvConfig, loadOrExit, loadProjectsConfig } from "./config.js";
 import { MemoryManager } from "./memory.js";
 
-const RELAY_DIR = import.meta.dirname;
-const ENV_PATH = resolve(RELAY_DIR, ".env");
-const ROOT = resolve(RELAY_DIR, "..");
-const PROJECTS_PATH = resolve(ROOT, "projects.json");
-
-function loadEnv(): Record<string, string> {
-	if (!existsSync(ENV_PATH)) return {};
-	const env: Record<string, string> = {};
-	for (const line of readFileSync(ENV_PATH, "utf-8").split("\n")) {
-		const m = line.match(/^\s*([A-Z_][A-Z0-9_]*)\s*=\s*(.+?)\s*$/);
-		if (m) env[m[1]] = m[2].replace(/^["']|["']$/g, "");
-	}
-	return env;
-}
-
+// .env 缺失时按默认值运行；projects.json 缺失或有误时退回上层目录
 function getWorkspacePath(): string {
-	if (!existsSync(PROJECTS_PATH)) return ROOT;
 	try {
-		const cfg = JSON.parse(readFileSync(PROJECTS_PATH, "utf-8"));
-		return cfg.projects?.[cfg.default_project]?.path || ROOT;
+		const cfg = loadProjectsConfig();
+		return cfg.projects[cfg.default_project]!.path;
 	} catch {
-		return ROOT;
+		return ROOT_DIR;
 	}
 }
 
-const env = loadEnv();
+const env = loadOrExit(() => loadEnvConfig({ required: false }));
 const workspaceDir = getWorkspacePath();
-const apiKey = env.VOLC_EMBEDDING_API_KEY || "";
-const model = env.VOLC_EMBEDDING_MODEL || "doubao-embedding-vision-250615";
+const apiKey = env.VOLC_EMBEDDING_API_KEY;
+const model = env.VOLC_EMBEDDING_MODEL;
 
 const mm = new MemoryManager({
 	workspaceDir,
@@ -0,0 +1,171 @@
+/**
+ * 运行指标 — Prometheus 文本格式的计数器 / 仪表 / 直方图
+ *
+ * 不依赖 prom-client：只实现本服务用到的三种指标与 text exposition 输出。
+ * 仪表可传 collect 回调，在每次抓取时读取当前值（如队列长度）。
+ */
+
+// ── 类型 ──────────────────────────────────────────
+
+export type Labels = Record<string, string>;
+
+interface Metric {
+	render(): string[];
+}
+
+/** 耗时类直方图的默认分桶（秒）：覆盖 Agent 从几秒到一小时 */
+export const DURATION_BUCKETS = [1, 5, 15, 30, 60, 120, 300, 600, 1200, 1800, 3600];
+/** 毫秒级操作（检索、API 调用）的分桶（秒） */
+export const LATENCY_BUCKETS = [0.01, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabel(v: string): string {
+	return v.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+	const parts = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+	return parts.length > 0 ? `{${parts.join(",")}}` : "";
+}
+
+// 以固定顺序拼接标签值作为序列 key，缺失的标签记为空串
+function seriesKey(labelNames: readonly string[], labels: Labels): string {
+	return JSON.stringify(labelNames.map((n) => labels[n] ?? ""));
+}
+
+function pickLabels(labelNames: readonly string[], labels: Labels): Labels {
+	return Object.fromEntries(labelNames.map((n) => [n, labels[n] ?? ""]));
+}
+
+// ── 指标 ──────────────────────────────────────────
+
+export class Counter implements Metric {
+	private series = new Map<string, { labels: Labels; value: number }>();
+	readonly name: string;
+	private help: string;
+	private labelNames: readonly string[];
+
+	constructor(name: string, help: string, labelNames: readonly string[]) {
+		this.name = name;
+		this.help = help;
+		this.labelNames = labelNames;
+	}
+
+	inc(labels: Labels = {}, n = 1): void {
+		const key = seriesKey(this.labelNames, labels);
+		const s = this.series.get(key);
+		if (s) s.value += n;
+		else this.series.set(key, { labels: pickLabels(this.labelNames, labels), value: n });
+	}
+
+	render(): string[] {
+		const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+		for (const s of this.series.values()) lines.push(`${this.name}${formatLabels(s.labels)} ${s.value}`);
+		return lines;
+	}
+}
+
+export class Gauge implements Metric {
+	private series = new Map<string, { labels: Labels; value: number }>();
+	readonly name: string;
+	private help: string;
+	private labelNames: readonly string[];
+	private collect?: (gauge: Gauge) => void;
+
+	constructor(name: string, help: string, labelNames: readonly string[], collect?: (gauge: Gauge) => void) {
+		this.name = name;
+		this.help = help;
+		this.labelNames = labelNames;
+		this.collect = collect;
+	}
+
+	set(labels: Labels, value: number): void {
+		this.series.set(seriesKey(this.labelNames, labels), { labels: pickLabels(this.labelNames, labels), value });
+	}
+
+	render(): string[] {
+		if (this.collect) {
+			try {
+				this.collect(this);
+			} catch {}
+		}
+		const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} gauge`];
+		for (const s of this.series.values()) lines.push(`${this.name}${formatLabels(s.labels)} ${s.value}`);
+		return lines;
+	}
+}
+
+export class Histogram implements Metric {
+	private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+	readonly name: string;
+	private help: string;
+	private labelNames: readonly string[];
+	private buckets: number[];
+
+	constructor(name: string, help: string, labelNames: readonly string[], buckets: number[]) {
+		this.name = name;
+		this.help = help;
+		this.labelNames = labelNames;
+		this.buckets = [...buckets].sort((a, b) => a - b);
+	}
+
+	observe(labels: Labels, value: number): void {
+		const key = seriesKey(this.labelNames, labels);
+		let s = this.series.get(key);
+		if (!s) {
+			s = { labels: pickLabels(this.labelNames, labels), counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+			this.series.set(key, s);
+		}
+		this.buckets.forEach((le, i) => {
+			if (value <= le) s!.counts[i]!++;
+		});
+		s.sum += value;
+		s.count++;
+	}
+
+	/** 计时辅助：返回结束函数，调用时记录经过的秒数 */
+	startTimer(labels: Labels = {}): (extra?: Labels) => void {
+		const start = performance.now();
+		return (extra) => this.observe({ ...labels, ...extra }, (performance.now() - start) / 1000);
+	}
+
+	render(): string[] {
+		const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+		for (const s of this.series.values()) {
+			this.buckets.forEach((le, i) => {
+				lines.push(`${this.name}_bucket${formatLabels({ ...s.labels, le: String(le) })} ${s.counts[i]}`);
+			});
+			lines.push(`${this.name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}`);
+			lines.push(`${this.name}_sum${formatLabels(s.labels)} ${s.sum}`);
+			lines.push(`${this.name}_count${formatLabels(s.labels)} ${s.count}`);
+		}
+		return lines;
+	}
+}
+
+// ── 注册表 ────────────────────────────────────────
+
+export class MetricsRegistry {
+	private metrics: Metric[] = [];
+
+	counter(name: string, help: string, labelNames: readonly string[] = []): Counter {
+		return this.register(new Counter(name, help, labelNames));
+	}
+
+	gauge(name: string, help: string, labelNames: readonly string[] = [], collect?: (gauge: Gauge) => void): Gauge {
+		return this.register(new Gauge(name, help, labelNames, collect));
+	}
+
+	histogram(name: string, help: string, labelNames: readonly string[] = [], buckets = DURATION_BUCKETS): Histogram {
+		return this.register(new Histogram(name, help, labelNames, buckets));
+	}
+
+	/** Prometheus text exposition format (version 0.0.4) */
+	render(): string {
+		return `${this.metrics.flatMap((m) => m.render()).join("\n")}\n`;
+	}
+
+	private register<T extends Metric>(metric: T): T {
+		this.metrics.push(metric);
+		return metric;
+	}
+}
@@ -30,6 +30,10 @@ export type CronJob = {
 	message: string;
 	workspace?: string;
 	model?: string;
+	/** 执行时长上限（分钟），缺省用项目或全局设置，0 表示不限 */
+	timeoutMinutes?: number;
+	/** 连续无输出上限（分钟），缺省用项目或全局设置，0 表示不限 */
+	idleTimeoutMinutes?: number;
 	createdAt: string;
 	updatedAt: string;
 	state: {
@@ -3,7 +3,7 @@
  *
  * 直连方案：飞书 SDK ↔ Cursor Agent CLI
  * - 飞书消息直达 Cursor，零提示词污染
- * - 普通互动卡片回复 + 消息更新（无需 CardKit 权限）
+ * - CardKit 流式卡片逐字输出；无 CardKit 权限时回退为普通互动卡片 + 消息更新
  * - 支持文字、图片、语音、文件、富文本
  * - 长消息自动分片
  *
@@ -11,23 +11,51 @@
  */
 import * as Lark from "@larksuiteoapi/node-sdk";
 import { spawn, execFileSync } from "node:child_process";
-import { readFileSync, readdirSync, statSync, watchFile, mkdirSync, writeFileSync, unlinkSync, existsSync } from "node:fs";
-import { resolve } from "node:path";
+import { readFileSync, readdirSync, realpathSync, statSync, watchFile, mkdirSync, writeFileSync, unlinkSync, existsSync, appendFileSync, renameSync } from "node:fs";
+import { extname, isAbsolute, relative, resolve, sep } from "node:path";
 import { Readable } from "node:stream";
 import { gzipSync, gunzipSync } from "node:zlib";
 import { randomUUID } from "node:crypto";
 import WebSocket from "ws";
+import { ENV_PATH, FEISHU_CONFIG_PATH, PROJECTS_PATH, ROOT_DIR, loadEnvConfig, loadFeishuConfig, loadOrExit, loadProjectsConfig, saveProjectsConfig, watchConfigFile, type ProjectsConfig } from "./config.js";
 import { MemoryManager } from "./memory.js";
 import { Scheduler, type CronJob } from "./scheduler.js";
 import { HeartbeatRunner } from "./heartbeat.js";
+import { TaskCancelledError, TaskQueue, type QueuePosition, type TaskPriority } from "./task-queue.js";
+import { LATENCY_BUCKETS, MetricsRegistry } from "./metrics.js";
+import { createAdminHandler, type AdminStatus } from "./admin.js";
+import { InflightStore, type InflightRun } from "./inflight.js";
+import { AuditLog, type AuditEntry, type AuditKind, type AuditQuery } from "./audit.js";
+import { UsageTracker, type UsageDimension, type UsageSource, type UsageStatus, type UsageTotals } from "./usage.js";
+import { extractMentionTargets, extractMessageBody, type FeishuMessageEvent } from "./feishu/mention.js";
+import {
+	isFeishuGroupAllowed,
+	resolveFeishuAllowlistMatch,
+	resolveFeishuGroupConfig,
+	resolveFeishuReplyPolicy,
+} from "./feishu/policy.js";
+import { DEFAULT_ACCOUNT_ID, listEnabledFeishuAccounts, resolveFeishuAccount } from "./feishu/accounts.js";
+import { createEventDispatcher, createFeishuClient, createFeishuWSClient } from "./feishu/client.js";
+import { setFeishuDedupDir, tryRecordMessagePersistent } from "./feishu/dedup.js";
+import { sendMediaFeishu } from "./feishu/media.js";
+import { getMessageFeishu } from "./feishu/send.js";
+import { FeishuEmoji, addReactionFeishu, removeReactionFeishu } from "./feishu/reactions.js";
+import { FeishuStreamingSession } from "./feishu/streaming-card.js";
+import { addTypingIndicator, removeTypingIndicator, type TypingIndicatorState } from "./feishu/typing.js";
+import {
+	DEFAULT_WEBHOOK_HOST,
+	DEFAULT_WEBHOOK_PORT,
+	createFeishuWebhookHandler,
+	resolveFeishuWebhookPath,
+	type FeishuWebhookHandler,
+} from "./feishu/webhook.js";
+import type { ClawdbotConfig } from "./feishu/sdk-shim.js";
+import type { FeishuConfig, FeishuRole, FeishuSessionScope, ResolvedFeishuAccount } from "./feishu/types.js";
 
 const HOME = process.env.HOME;
 if (!HOME) throw new Error("$HOME is not set");
 
-const ROOT = resolve(import.meta.dirname, "..");
-const ENV_PATH = resolve(import.meta.dirname, ".env");
-const PROJECTS_PATH = resolve(ROOT, "projects.json");
-const AGENT_BIN = process.env.AGENT_BIN || resolve(HOME, ".local/bin/agent");
+const ROOT = ROOT_DIR;
 const INBOX_DIR = resolve(ROOT, "inbox");
 
 mkdirSync(INBOX_DIR, { recursive: true });
@@ -46,78 +74,70 @@ process.on("unhandledRejection", (reason) => {
 	console.error("[致命] unhandledRejection:", reason);
 });
 
-// ── .env 热更换 ──────────────────────────────────
-interface EnvConfig {
-	CURSOR_API_KEY: string;
-	FEISHU_APP_ID: string;
-	FEISHU_APP_SECRET: string;
-	CURSOR_MODEL: string;
-	VOLC_STT_APP_ID: string;
-	VOLC_STT_ACCESS_TOKEN: string;
-	VOLC_EMBEDDING_API_KEY: string;
-	VOLC_EMBEDDING_MODEL: string;
-}
-
-function parseEnv(): EnvConfig {
-	if (!existsSync(ENV_PATH)) {
-		console.error(`[致命] .env 文件不存在: ${ENV_PATH}`);
-		process.exit(1);
-	}
-	const raw = readFileSync(ENV_PATH, "utf-8");
-	const env: Record<string, string> = {};
-	for (const line of raw.split("\n")) {
-		const trimmed = line.trim();
-		if (!trimmed || trimmed.startsWith("#")) continue;
-		const eqIdx = trimmed.indexOf("=");
-		if (eqIdx < 0) continue;
-		let val = trimmed.slice(eqIdx + 1).trim();
-		// 去除引号包裹
-		if ((val.startsWith('"') && val.endsWith('"')) || (val.startsWith("'") && val.endsWith("'"))) {
-			val = val.slice(1, -1);
-		}
-		env[trimmed.slice(0, eqIdx).trim()] = val;
-	}
-	return {
-		CURSOR_API_KEY: env.CURSOR_API_KEY || "",
-		FEISHU_APP_ID: env.FEISHU_APP_ID || "",
-		FEISHU_APP_SECRET: env.FEISHU_APP_SECRET || "",
-		CURSOR_MODEL: env.CURSOR_MODEL || "opus-4.6-thinking",
-		VOLC_STT_APP_ID: env.VOLC_STT_APP_ID || "",
-		VOLC_STT_ACCESS_TOKEN: env.VOLC_STT_ACCESS_TOKEN || "",
-		VOLC_EMBEDDING_API_KEY: env.VOLC_EMBEDDING_API_KEY || "",
-		VOLC_EMBEDDING_MODEL: env.VOLC_EMBEDDING_MODEL || "doubao-embedding-vision-250615",
-	};
-}
-
-let config = parseEnv();
-watchFile(ENV_PATH, { interval: 2000 }, () => {
-	try {
-		const prev = config.CURSOR_API_KEY;
-		config = parseEnv();
-		if (config.CURSOR_API_KEY !== prev) {
+// ── 配置（.env + projects.json，schema 与校验见 config.ts）──
+// 启动时配置有误直接退出并列出全部问题；热更新失败时保留旧配置，并在最近活跃的会话里提示
+const warnConfig = (msg: string) => console.warn(`[配置] ${msg}`);
+let config = loadOrExit(() => loadEnvConfig({ warn: warnConfig }));
+let projectsConfig: ProjectsConfig = loadOrExit(() => loadProjectsConfig());
+const AGENT_BIN = config.AGENT_BIN;
+
+watchConfigFile(ENV_PATH, 2000, () => loadEnvConfig({ warn: warnConfig }), {
+	onReload: (next) => {
+		const prev = config;
+		config = next;
+		if (config.CURSOR_API_KEY !== prev.CURSOR_API_KEY) {
 			console.log(`[热更换] API Key 已更新 (...${config.CURSOR_API_KEY.slice(-8)})`);
 		} else {
 			console.log("[热更换] .env 已重新加载");
 		}
-	} catch {}
+		if (config.HEARTBEAT_ENABLED !== prev.HEARTBEAT_ENABLED || config.HEARTBEAT_INTERVAL_MINUTES !== prev.HEARTBEAT_INTERVAL_MINUTES) {
+			heartbeat.updateConfig({ enabled: config.HEARTBEAT_ENABLED, everyMs: config.HEARTBEAT_INTERVAL_MINUTES * 60_000 });
+		}
+	},
+	onError: (e) => notifyConfigError(".env", e),
+});
+watchConfigFile(PROJECTS_PATH, 5000, () => loadProjectsConfig(), {
+	onReload: (next) => {
+		projectsConfig = next;
+		console.log("[热更换] projects.json 已重新加载");
+	},
+	onError: (e) => notifyConfigError("projects.json", e),
 });
 
-// ── 项目配置 ─────────────────────────────────────
-interface ProjectsConfig {
-	projects: Record<string, { path: string; description: string }>;
-	default_project: string;
-}
-if (!existsSync(PROJECTS_PATH)) {
-	console.error(`[致命] projects.json 不存在: ${PROJECTS_PATH}`);
-	process.exit(1);
+// 热更新失败：日志 + 最近活跃会话里的提示卡片
+function notifyConfigError(file: string, e: Error): void {
+	console.error(`[热更换] ${file} 重新加载失败，继续使用当前配置: ${e.message}`);
+	if (!lastActive) return;
+	const body = `\`${file}\` 重新加载失败，**仍在使用修改前的配置**。修正后保存即可自动生效。\n\n\`\`\`\n${e.message.slice(0, 1500)}\n\`\`\``;
+	sendCard(lastActive.bot, lastActive.chatId, body, { title: "⚠️ 配置未生效", color: "orange" }).catch(() => {});
 }
-let projectsConfig: ProjectsConfig = JSON.parse(readFileSync(PROJECTS_PATH, "utf-8"));
-watchFile(PROJECTS_PATH, { interval: 5000 }, () => {
-	try {
-		projectsConfig = JSON.parse(readFileSync(PROJECTS_PATH, "utf-8"));
-	} catch {}
+
+// ── 飞书渠道配置（访问策略、群配置）──────────────
+// feishu.json 与 .env 同目录，可选；结构同 FeishuConfig，校验见 config.ts
+// 顶层字段属于 default 机器人（凭据从 .env 读取），accounts.<id> 为其他机器人（需自带 appId/appSecret）
+let feishuConfig: FeishuConfig = loadOrExit(() => loadFeishuConfig({ warn: warnConfig }));
+watchConfigFile(FEISHU_CONFIG_PATH, 5000, () => loadFeishuConfig({ warn: warnConfig }), {
+	onReload: (next) => {
+		feishuConfig = next;
+		console.log("[热更换] feishu.json 已重新加载");
+	},
+	onError: (e) => notifyConfigError("feishu.json", e),
 });
 
+// 供 feishu/ 模块使用的渠道配置：feishu.json + .env 中 default 机器人的凭据
+function buildChannelConfig(): ClawdbotConfig {
+	return {
+		channels: {
+			feishu: { ...feishuConfig, appId: config.FEISHU_APP_ID, appSecret: config.FEISHU_APP_SECRET },
+		},
+	};
+}
+
+// 机器人账号的当前生效配置（顶层 + accounts.<id> 覆盖，热更换后立即生效）
+function accountConfig(accountId: string): FeishuConfig {
+	return resolveFeishuAccount({ cfg: buildChannelConfig(), accountId }).config;
+}
+
 // ── 工作区模板自动初始化 ─────────────────────────
 const TEMPLATE_DIR = resolve(import.meta.dirname, "templates");
 const WORKSPACE_FILES = [
@@ -213,8 +233,88 @@ try {
 	console.warn(`[记忆] 初始化失败（功能降级）: ${e}`);
 }
 
+// ── 用量统计 ──────────────────────────────────────
+// 每次 Agent 调用记一行（.usage.sqlite），供 /用量 与每日汇总卡片使用
+let usage: UsageTracker | undefined;
+try {
+	usage = new UsageTracker(resolve(import.meta.dirname, ".usage.sqlite"));
+} catch (e) {
+	console.warn(`[用量] 初始化失败（不记录用量）: ${e}`);
+}
+
+// ── 进行中的对话 ──────────────────────────────────
+// 排队中 / 运行中的飞书对话记录在 .inflight.json，停机或崩溃后下次启动据此恢复（见「中断恢复」）
+const inflight = new InflightStore(resolve(import.meta.dirname, ".inflight.json"));
+
+// ── 审计日志 ──────────────────────────────────────
+// 入站消息、指令、配置变更、Agent 执行与工具调用只追加写入 .audit/YYYY-MM-DD.jsonl，/审计 查询与导出
+const audit = new AuditLog(resolve(import.meta.dirname, ".audit"));
+const AUDIT_TEXT_MAX = 2000;
+const AUDIT_ARG_MAX = 500;
+
+// 审计中不保存明文密钥：/密钥 指令的参数只保留末 4 位
+function redactForAudit(text: string): string {
+	const m = text.match(/^(\/?(?:api\s*key|密钥|换key|更换密钥)[\s:：=]*)(.+)/is);
+	const masked = m ? `${m[1]}…${m[2]!.trim().slice(-4)}` : text;
+	return masked.length > AUDIT_TEXT_MAX ? `${masked.slice(0, AUDIT_TEXT_MAX)}…(+${masked.length - AUDIT_TEXT_MAX})` : masked;
+}
+
+// 工具参数中的长字符串（写入的文件内容等）截断保存
+function clipToolArgs(args: Record<string, unknown> | undefined): Record<string, unknown> | undefined {
+	if (!args) return undefined;
+	return Object.fromEntries(
+		Object.entries(args).map(([k, v]) => {
+			const str = typeof v === "string" ? v : JSON.stringify(v) ?? "";
+			return [k, str.length > AUDIT_ARG_MAX ? `${str.slice(0, AUDIT_ARG_MAX)}…(+${str.length - AUDIT_ARG_MAX})` : v];
+		}),
+	);
+}
+
+const AUDIT_QUERY_DAYS = 7;
+const AUDIT_QUERY_LIMIT = 20;
+const AUDIT_QUERY_MAX = 50;
+const AUDIT_EXPORT_DAYS = 7;
+const AUDIT_EXPORT_MAX_DAYS = 90;
+const AUDIT_KIND_ALIASES: Record<string, AuditKind> = {
+	消息: "message", message: "message",
+	指令: "command", command: "command",
+	配置: "config", config: "config",
+	任务: "agent", agent: "agent",
+	工具: "tool", tool: "tool",
+};
+
+// ── 运行指标（Prometheus /metrics）────────────────
+// 端口 METRICS_PORT（默认 9803，0 关闭），默认只监听本机；队列长度在抓取时读取
+const metrics = new MetricsRegistry();
+const metric = {
+	events: metrics.counter("feishu_events_total", "收到的飞书事件（去重后），按消息类型", ["account", "type"]),
+	commands: metrics.counter("feishu_commands_total", "指令调用次数及权限判定结果", ["command", "result"]),
+	cardFailures: metrics.counter("feishu_card_failures_total", "卡片发送/更新失败次数", ["op", "reason"]),
+	agentRuns: metrics.histogram("agent_run_duration_seconds", "Agent 单次调用耗时（不含排队）", ["model", "status", "source"]),
+	agentPhases: metrics.histogram("agent_phase_duration_seconds", "Agent 各阶段（思考/工具/回复）耗时", ["model", "phase"]),
+	agentQueueWait: metrics.histogram("agent_queue_wait_seconds", "Agent 任务排队等待时长", ["source"]),
+	agentToolCalls: metrics.counter("agent_tool_calls_total", "Agent 工具调用次数", ["tool"]),
+	stt: metrics.counter("stt_requests_total", "语音识别请求结果（fallback 为火山引擎重试耗尽后改用本地 whisper）", ["engine", "result"]),
+	memorySearch: metrics.histogram("memory_search_duration_seconds", "记忆检索耗时", ["result"], LATENCY_BUCKETS),
+	schedulerJobs: metrics.counter("scheduler_jobs_total", "定时任务执行结果", ["job", "status"]),
+};
+metrics.gauge("agent_queue_tasks", "任务队列中的任务数", ["state"], (g) => {
+	const { running, waiting } = taskQueue.list();
+	g.set({ state: "running" }, running.length);
+	g.set({ state: "waiting" }, waiting.length);
+});
+metrics.gauge("agent_processes", "运行中的 Agent 子进程数", [], (g) => g.set({}, childPids.size));
+metrics.gauge("process_start_time_seconds", "服务启动时间（Unix 秒）").set({}, Math.floor(Date.now() / 1000 - process.uptime()));
+
+// 卡片错误原因归类为有限的标签值
+function cardFailureReason(reason: string): string {
+	if (reason.startsWith("卡片渲染失败")) return "render";
+	if (reason.startsWith("卡片内容超过")) return "too_large";
+	return "other";
+}
+
 // ── 最近活跃会话（用于定时任务/心跳主动推送）─────
-let lastActiveChatId: string | undefined;
+let lastActive: { chatId: string; bot: BotAccount } | undefined;
 
 // ── 定时任务调度器 ────────────────────────────────
 const cronStorePath = resolve(defaultWorkspace, "cron-jobs.json");
@@ -226,23 +326,32 @@ const scheduler = new Scheduler({
 		try {
 			const ws = job.workspace || defaultWorkspace;
 			memory?.appendSessionLog(ws, "user", `[定时任务:${job.name}] ${job.message}`, config.CURSOR_MODEL);
-			const { result } = await runAgent(ws, job.message);
+			const { result } = await runAgent(ws, job.message, {
+				timeouts: { timeoutMinutes: job.timeoutMinutes, idleTimeoutMinutes: job.idleTimeoutMinutes },
+				task: { label: `定时任务: ${job.name}`, priority: "low" },
+				usage: { source: "cron", job: job.name },
+			});
 			memory?.appendSessionLog(ws, "assistant", result.slice(0, 3000), config.CURSOR_MODEL);
+			metric.schedulerJobs.inc({ job: job.name, status: "ok" });
 			return { status: "ok" as const, result };
 		} catch (err) {
+			metric.schedulerJobs.inc({ job: job.name, status: err instanceof AgentTimeoutError ? "timeout" : "error" });
+			if (err instanceof AgentTimeoutError && err.partialOutput) {
+				return { status: "error" as const, error: `${err.message}\n\n部分输出：\n${err.partialOutput.slice(-1000)}` };
+			}
 			return { status: "error" as const, error: err instanceof Error ? err.message : String(err) };
 		}
 	},
 	onDelivery: async (job: CronJob, result: string) => {
-		if (!lastActiveChatId) {
+		if (!lastActive) {
 			console.warn("[调度] 无活跃会话，跳过发送");
 			return;
 		}
 		const title = `⏰ 定时任务: ${job.name}`;
 		if (result.length <= 3800) {
-			await sendCard(lastActiveChatId, result, { title, color: "purple" });
+			await sendCard(lastActive.bot, lastActive.chatId, result, { title, color: "purple" });
 		} else {
-			await sendCard(lastActiveChatId, result.slice(0, 3800) + "\n\n...(已截断)", { title, color: "purple" });
+			await sendCard(lastActive.bot, lastActive.chatId, result.slice(0, 3800) + "\n\n...(已截断)", { title, color: "purple" });
 		}
 	},
 	log: (msg: string) => console.log(`[调度] ${msg}`),
@@ -251,29 +360,34 @@ const scheduler = new Scheduler({
 // ── 心跳系统 ──────────────────────────────────────
 const heartbeat = new HeartbeatRunner({
 	config: {
-		enabled: true,
-		everyMs: 30 * 60 * 1000,
+		enabled: config.HEARTBEAT_ENABLED,
+		everyMs: config.HEARTBEAT_INTERVAL_MINUTES * 60_000,
 		workspaceDir: defaultWorkspace,
+		activeHours: config.HEARTBEAT_ACTIVE_HOURS,
 	},
 	onExecute: async (prompt: string) => {
 		memory?.appendSessionLog(defaultWorkspace, "user", "[心跳检查] " + prompt.slice(0, 200), config.CURSOR_MODEL);
-		const { result } = await runAgent(defaultWorkspace, prompt);
+		const { result } = await runAgent(defaultWorkspace, prompt, {
+			task: { label: "心跳检查", priority: "low" },
+			usage: { source: "heartbeat" },
+		});
 		memory?.appendSessionLog(defaultWorkspace, "assistant", result.slice(0, 3000), config.CURSOR_MODEL);
 		return result;
 	},
 	onDelivery: async (content: string) => {
-		if (!lastActiveChatId) {
+		if (!lastActive) {
 			console.warn("[心跳] 无活跃会话，跳过发送");
 			return;
 		}
-		await sendCard(lastActiveChatId, content, { title: "💓 心跳检查", color: "purple" });
+		await sendCard(lastActive.bot, lastActive.chatId, content, { title: "💓 心跳检查", color: "purple" });
 	},
 	log: (msg: string) => console.log(`[心跳] ${msg}`),
 });
 
 // ── 每日对话蒸馏 ─────────────────────────────────
 
-const DISTILL_INTERVAL = 12 * 60 * 60 * 1000; // 12 小时检查一次
+// 检查间隔：.env DISTILL_INTERVAL_HOURS（默认 12 小时）
+const distillIntervalMs = () => config.DISTILL_INTERVAL_HOURS * 60 * 60 * 1000;
 const DISTILL_SCRIPT = resolve(import.meta.dirname, "distill-chats.ts");
 
 let distillTimer: ReturnType<typeof setTimeout> | null = null;
@@ -328,7 +442,10 @@ async function runDistillCycle(): Promise<void> {
 		].join("\n");
 
 		memory?.appendSessionLog(defaultWorkspace, "user", "[记忆蒸馏] 自动提取对话记忆", config.CURSOR_MODEL);
-		const { result } = await runAgent(defaultWorkspace, distillPrompt);
+		const { result } = await runAgent(defaultWorkspace, distillPrompt, {
+			task: { label: "记忆蒸馏", priority: "low" },
+			usage: { source: "distill" },
+		});
 		memory?.appendSessionLog(defaultWorkspace, "assistant", result.slice(0, 3000), config.CURSOR_MODEL);
 
 		if (/DISTILL_SKIP/i.test(result)) {
@@ -350,26 +467,86 @@ function scheduleDistill(): void {
 		lastDistillCheck = Date.now();
 		await runDistillCycle();
 		scheduleDistill();
-	}, lastDistillCheck ? DISTILL_INTERVAL : 5 * 60 * 1000); // 首次启动 5 分钟后执行
+	}, lastDistillCheck ? distillIntervalMs() : 5 * 60 * 1000); // 首次启动 5 分钟后执行
 	distillTimer.unref();
 }
 
 scheduleDistill();
-console.log(`[蒸馏] 已启动每日对话蒸馏（每 ${DISTILL_INTERVAL / 3600000}h 检查）`);
+console.log(`[蒸馏] 已启动每日对话蒸馏（每 ${config.DISTILL_INTERVAL_HOURS}h 检查）`);
 
-// ── 飞书 Client ──────────────────────────────────
-const larkClient = new Lark.Client({
-	appId: config.FEISHU_APP_ID,
-	appSecret: config.FEISHU_APP_SECRET,
-	domain: Lark.Domain.Feishu,
-});
+// ── 飞书机器人账号 ───────────────────────────────
+// 每个账号独立的 Client、长连接和机器人 open_id；账号列表启动时确定，增删账号需重启
+interface BotAccount {
+	id: string;
+	label: string;
+	account: ResolvedFeishuAccount;
+	client: Lark.Client;
+	openId?: string;
+	infoFetchedAt: number;
+	/** CardKit 流式卡片创建失败后，在此时间前直接使用普通卡片 */
+	streamingDisabledUntil: number;
+}
+
+const bots = new Map<string, BotAccount>();
+for (const account of listEnabledFeishuAccounts(buildChannelConfig())) {
+	bots.set(account.accountId, {
+		id: account.accountId,
+		label: account.name || account.accountId,
+		account,
+		client: createFeishuClient(account),
+		infoFetchedAt: 0,
+		streamingDisabledUntil: 0,
+	});
+}
+if (bots.size === 0) {
+	console.error("[致命] 没有可用的飞书机器人：请在 .env 填写 FEISHU_APP_ID/FEISHU_APP_SECRET，或在 feishu.json 的 accounts 中配置");
+	process.exit(1);
+}
+
+// 机器人的默认项目工作区；未配置或项目不存在时返回 undefined（走 default_project）
+function botDefaultWorkspace(bot: BotAccount): string | undefined {
+	const name = accountConfig(bot.id).defaultProject?.toLowerCase();
+	return name ? projectsConfig.projects[name]?.path : undefined;
+}
 
 // ── 卡片构建 ─────────────────────────────────────
-function buildCard(markdown: string, header?: { title?: string; color?: string }): string {
+// 卡片按钮点击后，value 原样出现在 card.action.trigger 回调里（见「卡片按钮回调」）
+type CardActionValue =
+	| { action: "command"; command: string; chatType: string; rootId?: string }
+	| { action: "stop"; lockKey: string; chatType: string }
+	| { action: "resume"; taskId: string; chatType: string };
+
+interface CardButton {
+	text: string;
+	value: CardActionValue;
+	type?: "primary" | "danger" | "default";
+}
+
+function buildButtonElements(buttons: CardButton[]): Record<string, unknown>[] {
+	if (buttons.length === 0) return [];
+	return [{
+		tag: "column_set",
+		flex_mode: "flow",
+		horizontal_spacing: "small",
+		columns: buttons.map((b) => ({
+			tag: "column",
+			width: "auto",
+			elements: [{
+				tag: "button",
+				text: { tag: "plain_text", content: b.text },
+				type: b.type ?? "default",
+				size: "small",
+				behaviors: [{ type: "callback", value: b.value }],
+			}],
+		})),
+	}];
+}
+
+function buildCard(markdown: string, header?: { title?: string; color?: string }, buttons: CardButton[] = []): string {
 	const card: Record<string, unknown> = {
 		schema: "2.0",
 		config: { wide_screen_mode: true },
-		body: { elements: [{ tag: "markdown", content: markdown }] },
+		body: { elements: [{ tag: "markdown", content: markdown }, ...buildButtonElements(buttons)] },
 	};
 	if (header) {
 		const h: Record<string, unknown> = { template: header.color || "blue" };
@@ -398,23 +575,30 @@ function extractCardError(err: unknown): string | null {
 }
 
 // ── 飞书消息操作 ─────────────────────────────────
+// 话题模式下，对这些消息的回复以话题形式发出（reply_in_thread）
+const threadReplyMessages = new Set<string>();
+
 async function replyCard(
+	bot: BotAccount,
 	messageId: string,
 	markdown: string,
 	header?: { title?: string; color?: string },
+	buttons?: CardButton[],
 ): Promise<string | undefined> {
+	const inThread = threadReplyMessages.has(messageId);
 	try {
-		const res = await larkClient.im.message.reply({
+		const res = await bot.client.im.message.reply({
 			path: { message_id: messageId },
-			data: { content: buildCard(markdown, header), msg_type: "interactive" },
+			data: { content: buildCard(markdown, header, buttons), msg_type: "interactive", reply_in_thread: inThread },
 		});
 		return res.data?.message_id;
 	} catch (err) {
 		console.error("[回复卡片失败]", err);
+		metric.cardFailures.inc({ op: "reply", reason: cardFailureReason(extractCardError(err) ?? "") });
 		try {
-			const res = await larkClient.im.message.reply({
+			const res = await bot.client.im.message.reply({
 				path: { message_id: messageId },
-				data: { content: JSON.stringify({ text: markdown }), msg_type: "text" },
+				data: { content: JSON.stringify({ text: markdown }), msg_type: "text", reply_in_thread: inThread },
 			});
 			return res.data?.message_id;
 		} catch {}
@@ -422,44 +606,49 @@ async function replyCard(
 }
 
 async function updateCard(
+	bot: BotAccount,
 	messageId: string,
 	markdown: string,
 	header?: { title?: string; color?: string },
+	buttons?: CardButton[],
 ): Promise<{ ok: boolean; error?: string }> {
 	try {
-		await larkClient.im.message.patch({
+		await bot.client.im.message.patch({
 			path: { message_id: messageId },
-			data: { content: buildCard(markdown, header) },
+			data: { content: buildCard(markdown, header, buttons) },
 		});
 		return { ok: true };
 	} catch (err) {
 		const reason = extractCardError(err) || (err instanceof Error ? err.message : String(err));
 		console.error(`[更新卡片失败] ${reason}`);
+		metric.cardFailures.inc({ op: "update", reason: cardFailureReason(reason) });
 		return { ok: false, error: reason };
 	}
 }
 
 async function sendCard(
+	bot: BotAccount,
 	chatId: string,
 	markdown: string,
 	header?: { title?: string; color?: string },
 ): Promise<string | undefined> {
 	try {
-		const res = await larkClient.im.message.create({
+		const res = await bot.client.im.message.create({
 			params: { receive_id_type: "chat_id" },
 			data: { receive_id: chatId, msg_type: "interactive", content: buildCard(markdown, header) },
 		});
 		return res.data?.message_id;
 	} catch (err) {
 		console.error("[发送卡片失败]", err);
+		metric.cardFailures.inc({ op: "send", reason: cardFailureReason(extractCardError(err) ?? "") });
 	}
 }
 
 // 长消息分片发送
 const CARD_MAX = 3800;
-async function replyLongMessage(messageId: string, chatId: string, text: string, header?: { title?: string; color?: string }): Promise<void> {
+async function replyLongMessage(bot: BotAccount, messageId: string, chatId: string, text: string, header?: { title?: string; color?: string }): Promise<void> {
 	if (text.length <= CARD_MAX) {
-		await replyCard(messageId, text, header);
+		await replyCard(bot, messageId, text, header);
 		return;
 	}
 	const chunks: string[] = [];
@@ -476,11 +665,91 @@ async function replyLongMessage(messageId: string, chatId: string, text: string,
 	}
 	for (let i = 0; i < chunks.length; i++) {
 		const h = chunks.length > 1 ? { title: `${header?.title || "回复"} (${i + 1}/${chunks.length})`, color: header?.color } : header;
-		if (i === 0) await replyCard(messageId, chunks[i], h);
-		else await sendCard(chatId, chunks[i], h);
+		// 话题中的后续分片也回复到话题内，否则发到会话
+		if (i === 0 || threadReplyMessages.has(messageId)) await replyCard(bot, messageId, chunks[i], h);
+		else await sendCard(bot, chatId, chunks[i], h);
+	}
+}
+
+// ── CardKit 流式卡片 ─────────────────────────────
+// 默认开启（feishu.json streaming: false 关闭）；缺少 CardKit 权限等原因创建失败时，该机器人 30 分钟内回退为普通卡片更新
+const STREAMING_RETRY_INTERVAL = 30 * 60 * 1000;
+
+async function startStreamingCard(
+	bot: BotAccount,
+	messageId: string,
+	chatId: string,
+	markdown: string,
+	header: { title?: string; color?: string },
+	buttons?: CardButton[],
+): Promise<FeishuStreamingSession | undefined> {
+	if (accountConfig(bot.id).streaming === false || Date.now() < bot.streamingDisabledUntil) return undefined;
+	const { appId, appSecret, domain } = bot.account;
+	if (!appId || !appSecret) return undefined;
+	const session = new FeishuStreamingSession(bot.client, { appId, appSecret, domain }, (msg) => console.log(`[流式] ${msg}`));
+	try {
+		await session.start(chatId, "chat_id", {
+			replyToMessageId: messageId,
+			replyInThread: threadReplyMessages.has(messageId),
+			header,
+			initialText: markdown,
+			extraElements: buildButtonElements(buttons ?? []),
+		});
+		return session;
+	} catch (e) {
+		bot.streamingDisabledUntil = Date.now() + STREAMING_RETRY_INTERVAL;
+		console.warn(`[流式] ${bot.id}: CardKit 不可用，回退普通卡片更新: ${e instanceof Error ? e.message : e}`);
+		return undefined;
 	}
 }
 
+// ── 消息状态表情 ─────────────────────────────────
+// 在用户原消息上标记：排队 ⏱ → 处理中（Typing）→ 完成 ✅ / 失败 ❌，群里滚动时不用点开卡片也能看到状态
+// feishu.json statusReactions: false 关闭；表情操作失败不影响任务本身
+interface StatusReactions {
+	queued(): void;
+	working(): void;
+	done(ok: boolean): void;
+}
+
+function createStatusReactions(bot: BotAccount, messageId: string): StatusReactions {
+	const enabled = accountConfig(bot.id).statusReactions !== false;
+	const cfg = buildChannelConfig();
+	const accountId = bot.id;
+	let queuedReactionId: string | undefined;
+	let typing: TypingIndicatorState | undefined;
+	// 串行执行，避免「完成」先于「处理中」落地
+	let chain = Promise.resolve();
+	const run = (label: string, fn: () => Promise<void>) => {
+		if (!enabled) return;
+		chain = chain.then(fn).catch((e) => console.warn(`[表情] ${label} 失败: ${e instanceof Error ? e.message : e}`));
+	};
+	const clearQueued = async () => {
+		if (!queuedReactionId) return;
+		const reactionId = queuedReactionId;
+		queuedReactionId = undefined;
+		await removeReactionFeishu({ cfg, messageId, reactionId, accountId });
+	};
+
+	return {
+		// 排队位置变化会多次调用，只加一次
+		queued: () => run("排队", async () => {
+			if (queuedReactionId) return;
+			queuedReactionId = (await addReactionFeishu({ cfg, messageId, emojiType: FeishuEmoji.ONE_SECOND, accountId })).reactionId;
+		}),
+		working: () => run("处理中", async () => {
+			await clearQueued();
+			typing = await addTypingIndicator({ cfg, messageId, accountId });
+		}),
+		done: (ok) => run(ok ? "完成" : "失败", async () => {
+			await clearQueued();
+			if (typing) await removeTypingIndicator({ cfg, state: typing, accountId });
+			typing = undefined;
+			await addReactionFeishu({ cfg, messageId, emojiType: ok ? FeishuEmoji.DONE : FeishuEmoji.CROSS_MARK, accountId });
+		}),
+	};
+}
+
 // ── 媒体下载 ─────────────────────────────────────
 async function readResponseBuffer(response: unknown, depth = 0): Promise<Buffer> {
 	if (depth > 3) throw new Error("readResponseBuffer: 响应嵌套过深");
@@ -505,12 +774,13 @@ async function readResponseBuffer(response: unknown, depth = 0): Promise<Buffer>
 }
 
 async function downloadMedia(
+	bot: BotAccount,
 	messageId: string,
 	fileKey: string,
 	type: "image" | "file",
 	ext: string,
 ): Promise<string> {
-	const response = await larkClient.im.messageResource.get({
+	const response = await bot.client.im.messageResource.get({
 		path: { message_id: messageId, file_key: fileKey },
 		params: { type },
 	});
@@ -522,9 +792,296 @@ async function downloadMedia(
 	return filepath;
 }
 
+// ── 引用 / 转发消息展开 ──────────────────────────
+// 把非纯文本消息（引用的消息、合并转发的聊天记录、视频、卡片、分享的群聊等）展开成 Agent 能读的文字，
+// 其中的图片/文件/视频下载到收件目录，以本地路径给出
+const QUOTE_MAX = 4000;
+const FORWARD_MAX_MESSAGES = 200;
+const FORWARD_MAX_DEPTH = 3;
+const EXPANDED_TYPES = new Set(["media", "sticker", "share_chat", "share_user", "interactive", "merge_forward"]);
+
+interface FeishuMessageItem {
+	message_id?: string;
+	upper_message_id?: string;
+	msg_type?: string;
+	body?: { content?: string };
+	sender?: { id?: string; id_type?: string; sender_type?: string };
+	create_time?: string;
+}
+
+// 卡片消息（机器人的结果卡片等）没有纯文本，递归收集其中的文字字段
+function collectCardText(node: unknown, out: string[]): void {
+	if (Array.isArray(node)) {
+		for (const n of node) collectCardText(n, out);
+	} else if (node && typeof node === "object") {
+		for (const [k, v] of Object.entries(node)) {
+			if (typeof v === "string" && (k === "content" || k === "text" || k === "title") && v.trim()) out.push(v.trim());
+			else collectCardText(v, out);
+		}
+	}
+}
+
+// open_id → 姓名（需要通讯录读权限，没有时显示 ID 尾号）
+const userNameCache = new Map<string, string>();
+async function resolveUserName(bot: BotAccount, openId: string): Promise<string> {
+	const cached = userNameCache.get(openId);
+	if (cached) return cached;
+	let name = `用户 ${openId.slice(-6)}`;
+	try {
+		const res = await bot.client.contact.user.get({ path: { user_id: openId }, params: { user_id_type: "open_id" } });
+		if (res.data?.user?.name) name = res.data.user.name;
+	} catch {}
+	userNameCache.set(openId, name);
+	return name;
+}
+
+async function describeSender(bot: BotAccount, sender: FeishuMessageItem["sender"]): Promise<string> {
+	if (sender?.sender_type === "app") return sender.id === bot.account.appId ? "你（机器人）" : "机器人";
+	if (sender?.id && sender.id_type === "open_id") return resolveUserName(bot, sender.id);
+	return "未知用户";
+}
+
+async function expandMergeForward(bot: BotAccount, messageId: string, depth: number): Promise<string> {
+	const res = (await bot.client.im.message.get({ path: { message_id: messageId } })) as {
+		code?: number;
+		msg?: string;
+		data?: { items?: FeishuMessageItem[] };
+	};
+	if (res.code !== 0) throw new Error(res.msg || `code ${res.code}`);
+	const items = res.data?.items ?? [];
+	const children = new Map<string, FeishuMessageItem[]>();
+	for (const item of items) {
+		if (!item.upper_message_id) continue;
+		const list = children.get(item.upper_message_id) ?? [];
+		list.push(item);
+		children.set(item.upper_message_id, list);
+	}
+	let count = 0;
+	const render = async (parentId: string, level: number): Promise<string[]> => {
+		const lines: string[] = [];
+		for (const item of children.get(parentId) ?? []) {
+			if (++count > FORWARD_MAX_MESSAGES) {
+				lines.push(`${"  ".repeat(level)}...（超过 ${FORWARD_MAX_MESSAGES} 条，已省略）`);
+				break;
+			}
+			const who = await describeSender(bot, item.sender);
+			const time = item.create_time ? new Date(Number(item.create_time)).toLocaleString("zh-CN") : "";
+			const indent = "  ".repeat(level);
+			if (item.msg_type === "merge_forward") {
+				lines.push(`${indent}${who} (${time}): [转发的聊天记录]`);
+				if (level + 1 < depth) lines.push(...(await render(item.message_id ?? "", level + 1)));
+				continue;
+			}
+			const body = await describeMessage(bot, item.message_id ?? messageId, item.msg_type ?? "text", item.body?.content ?? "", {});
+			lines.push(`${indent}${who} (${time}): ${body.replace(/\n/g, `\n${indent}  `)}`);
+		}
+		return lines;
+	};
+	const lines = await render(messageId, 0);
+	return `[转发的聊天记录，共 ${Math.min(count, FORWARD_MAX_MESSAGES)} 条]\n${lines.join("\n")}`;
+}
+
+async function describeMessage(
+	bot: BotAccount,
+	messageId: string,
+	messageType: string,
+	content: string,
+	opts: { transcribe?: boolean; depth?: number },
+): Promise<string> {
+	const parsed = parseContent(messageType, content);
+	switch (messageType) {
+		case "text":
+			return parsed.text;
+		case "post":
+			return resolvePostAttachments(bot, messageId, parsed.text, parsed.attachments ?? []);
+		case "image":
+			return parsed.imageKey ? `[图片: ${await downloadMedia(bot, messageId, parsed.imageKey, "image", ".png")}]` : "[图片]";
+		case "file": {
+			const ext = parsed.fileName ? extname(parsed.fileName) : "";
+			return parsed.fileKey
+				? `[文件 ${parsed.fileName || ""}: ${await downloadMedia(bot, messageId, parsed.fileKey, "file", ext)}]`
+				: `[文件 ${parsed.fileName || ""}]`;
+		}
+		case "audio":
+			return parsed.fileKey ? `[语音: ${await downloadMedia(bot, messageId, parsed.fileKey, "file", ".ogg")}]` : "[语音]";
+		case "media": {
+			if (!parsed.fileKey) return "[视频]";
+			const ext = (parsed.fileName && extname(parsed.fileName)) || ".mp4";
+			const path = await downloadMedia(bot, messageId, parsed.fileKey, "file", ext);
+			const head = `[视频 ${parsed.fileName || ""}: ${path}]`;
+			if (!opts.transcribe) return head;
+			const transcript = await transcribeAudio(path);
+			return transcript ? `${head}\n[视频语音转写]\n${transcript}` : `${head}\n（视频语音转写失败或无人声）`;
+		}
+		case "sticker":
+			return "[表情包]";
+		case "interactive": {
+			const texts: string[] = [];
+			collectCardText(JSON.parse(content), texts);
+			return texts.length ? `[卡片消息]\n${texts.join("\n")}` : "[卡片消息]";
+		}
+		case "share_chat": {
+			const chatId = (JSON.parse(content) as { chat_id?: string }).chat_id ?? "";
+			try {
+				const res = await bot.client.im.chat.get({ path: { chat_id: chatId } });
+				const name = res.data?.name;
+				if (name) return `[分享的群聊「${name}」${res.data?.description ? `：${res.data.description}` : ""}] (chat_id: ${chatId})`;
+			} catch {}
+			return `[分享的群聊] (chat_id: ${chatId})`;
+		}
+		case "share_user": {
+			const userId = (JSON.parse(content) as { user_id?: string }).user_id ?? "";
+			return `[分享的名片：${userId ? await resolveUserName(bot, userId) : "未知用户"}]`;
+		}
+		case "merge_forward":
+			return (opts.depth ?? FORWARD_MAX_DEPTH) > 0
+				? expandMergeForward(bot, messageId, opts.depth ?? FORWARD_MAX_DEPTH)
+				: "[转发的聊天记录]";
+		default:
+			return `[${messageType} 消息]`;
+	}
+}
+
+async function buildQuotedContext(bot: BotAccount, parentId: string): Promise<string | undefined> {
+	const info = await getMessageFeishu({ cfg: buildChannelConfig(), messageId: parentId, accountId: bot.id });
+	if (!info) {
+		console.warn(`[引用] 获取被引用消息失败 ${parentId}`);
+		return undefined;
+	}
+	const from = info.senderType === "app"
+		? info.senderId === bot.account.appId ? "你之前的回复" : "其他机器人的消息"
+		: "用户消息";
+	let body: string;
+	try {
+		// getMessageFeishu 已把纯文本消息解包，其余类型仍是原始 JSON
+		body = info.contentType === "text"
+			? info.content
+			: await describeMessage(bot, parentId, info.contentType, info.content, { depth: 1 });
+	} catch (e) {
+		console.warn(`[引用] 解析被引用消息失败 ${parentId}: ${e instanceof Error ? e.message : e}`);
+		body = `[${info.contentType} 消息，内容获取失败]`;
+	}
+	body = body.trim();
+	if (!body) return undefined;
+	if (body.length > QUOTE_MAX) body = `${body.slice(0, QUOTE_MAX)}\n...（已截断）`;
+	console.log(`[引用] ${parentId} type=${info.contentType} (${body.length} chars)`);
+	return `[用户引用了一条${from}]\n"""\n${body}\n"""\n\n[用户针对上面的引用说]`;
+}
+
+// ── 结果附件回传（图片/文件）──────────────────────
+// 回复中引用的本地文件（![说明](路径)、[名称](路径)、`绝对路径`）限常见产出物类型，且须在任务工作区内；
+// 用户上传的 inbox 不回传（Agent 常会复述附件路径），工作区外的文件（如 $HOME 下）一律不发，避免被注入的内容借此外传
+// 工作区 .cursor/outbox/ 中本次任务期间新增的文件不限类型，发送后移入 outbox/sent/
+// 单个文件不超过 mediaMaxMb（默认 30MB），每次最多 MAX_ATTACHMENTS 个
+const OUTBOX_SUBDIR = ".cursor/outbox";
+const MAX_ATTACHMENTS = 10;
+const IMAGE_EXTS = new Set([".png", ".jpg", ".jpeg", ".gif", ".webp", ".bmp"]);
+const ARTIFACT_EXTS = new Set([
+	...IMAGE_EXTS,
+	".pdf", ".doc", ".docx", ".xls", ".xlsx", ".ppt", ".pptx", ".csv",
+	".zip", ".mp4", ".mov", ".mp3", ".opus",
+]);
+const LOCAL_IMAGE_LINK = /!\[([^\]]*)\]\((?!https?:\/\/)([^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+function resolveArtifactPath(raw: string, workspace: string): string | undefined {
+	let p = raw.trim().replace(/^<(.*)>$/, "$1");
+	if (/^https?:\/\//i.test(p)) return undefined;
+	if (p.startsWith("file://")) p = decodeURIComponent(p.slice("file://".length));
+	if (p.startsWith("~/")) p = resolve(HOME!, p.slice(2));
+	const abs = isAbsolute(p) ? p : resolve(workspace, p);
+	if (!ARTIFACT_EXTS.has(extname(abs).toLowerCase())) return undefined;
+	try {
+		if (!statSync(abs).isFile()) return undefined;
+		// 按真实路径判断，符号链接不能绕过工作区限制
+		const real = realpathSync(abs);
+		return isWithin(realpathSync(workspace), real) && !isWithin(realpathSync(INBOX_DIR), real) ? abs : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function isWithin(dir: string, path: string): boolean {
+	const rel = relative(dir, path);
+	return rel !== "" && rel !== ".." && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+function extractArtifacts(text: string, workspace: string): string[] {
+	const found: string[] = [];
+	for (const re of [/!?\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, /`((?:~\/|\/)[^`\n]+)`/g]) {
+		for (const m of text.matchAll(re)) {
+			const p = resolveArtifactPath(m[1]!, workspace);
+			if (p && !found.includes(p)) found.push(p);
+		}
+	}
+	return found;
+}
+
+function collectOutbox(workspace: string, since: number): string[] {
+	const dir = resolve(workspace, OUTBOX_SUBDIR);
+	if (!existsSync(dir)) return [];
+	return readdirSync(dir)
+		.filter((f) => !f.startsWith("."))
+		.map((f) => resolve(dir, f))
+		.filter((p) => {
+			try {
+				const st = statSync(p);
+				return st.isFile() && st.mtimeMs >= since;
+			} catch {
+				return false;
+			}
+		});
+}
+
+// 卡片 Markdown 只能显示已上传的图片，本地图片链接替换为文字说明（图片另行发送）
+function replaceLocalImageLinks(text: string): string {
+	return text.replace(LOCAL_IMAGE_LINK, (_, alt: string, path: string) => `🖼️ ${alt || basename(path)}`);
+}
+
+async function deliverArtifacts(
+	bot: BotAccount,
+	messageId: string,
+	chatId: string,
+	workspace: string,
+	files: string[],
+): Promise<string[]> {
+	const cfg = buildChannelConfig();
+	const maxMb = accountConfig(bot.id).mediaMaxMb ?? 30;
+	const outboxDir = resolve(workspace, OUTBOX_SUBDIR);
+	const failed: string[] = [];
+	for (const file of files.slice(0, MAX_ATTACHMENTS)) {
+		const name = basename(file);
+		try {
+			const size = statSync(file).size;
+			if (size > maxMb * 1024 * 1024) {
+				failed.push(`${name}（${(size / 1024 / 1024).toFixed(1)}MB，超过 ${maxMb}MB 上限）`);
+				continue;
+			}
+			await sendMediaFeishu({
+				cfg,
+				to: chatId,
+				mediaBuffer: readFileSync(file),
+				fileName: name,
+				replyToMessageId: messageId,
+				replyInThread: threadReplyMessages.has(messageId),
+				accountId: bot.id,
+			});
+			console.log(`[附件] 已发送 ${file} (${size} bytes)`);
+			if (resolve(file, "..") === outboxDir) {
+				mkdirSync(resolve(outboxDir, "sent"), { recursive: true });
+				renameSync(file, resolve(outboxDir, "sent", name));
+			}
+		} catch (e) {
+			console.warn(`[附件] 发送失败 ${file}: ${e instanceof Error ? e.message : e}`);
+			failed.push(`${name}（${e instanceof Error ? e.message : e}）`);
+		}
+	}
+	if (files.length > MAX_ATTACHMENTS) failed.push(`另有 ${files.length - MAX_ATTACHMENTS} 个文件超出单次 ${MAX_ATTACHMENTS} 个上限`);
+	return failed;
+}
+
 // ── 语音转文字（火山引擎 → 云端 API → 本地 whisper）──
 const WHISPER_MODEL = resolve(HOME, ".cache/whisper-cpp/ggml-tiny.bin");
-const WHISPER_BIN = process.env.WHISPER_CLI || "whisper-cli";
+const WHISPER_BIN = config.WHISPER_CLI;
 const STT_DEBUG = /^(whisper_|ggml_|main:|system_info:|metal_|coreml_|log_)/;
 
 function convertToWav(audioPath: string): string {
@@ -697,10 +1254,12 @@ async function transcribeAudio(audioPath: string): Promise<string | null> {
 				try {
 					const text = await transcribeVolcengine(wavPath);
 					console.log(`[STT 火山引擎] 成功 (${text.length} chars, 第${attempt}次)`);
+					metric.stt.inc({ engine: "volcengine", result: "success" });
 					return text;
 				} catch (err) {
 					const msg = err instanceof Error ? err.message : String(err);
 					console.warn(`[STT 火山引擎] 第${attempt}/${maxRetries}次失败: ${msg}`);
+					metric.stt.inc({ engine: "volcengine", result: "error" });
 					if (attempt < maxRetries) {
 						console.log(`[STT 火山引擎] 500ms 后重试...`);
 						await new Promise((r) => setTimeout(r, 500));
@@ -708,9 +1267,11 @@ async function transcribeAudio(audioPath: string): Promise<string | null> {
 				}
 			}
 			console.warn("[STT 火山引擎] 重试耗尽，降级本地 whisper");
+			metric.stt.inc({ engine: "volcengine", result: "fallback" });
 		}
 
 		const local = transcribeLocal(wavPath);
+		metric.stt.inc({ engine: "whisper", result: local ? "success" : "error" });
 		if (local) console.log(`[STT 本地] 成功 (${local.length} chars)`);
 		else console.warn("[STT] 所有引擎均不可用");
 		return local;
@@ -723,10 +1284,104 @@ async function transcribeAudio(audioPath: string): Promise<string | null> {
 }
 
 // ── 消息解析 ─────────────────────────────────────
+// 富文本中的图片/视频：正文里先放占位符，下载后由 resolvePostAttachments 替换为本地路径
+interface PostAttachment {
+	placeholder: string;
+	key: string;
+	type: "image" | "file";
+	ext: string;
+}
+
+interface PostElement {
+	tag: string;
+	text?: string;
+	href?: string;
+	style?: string[];
+	user_id?: string;
+	user_name?: string;
+	image_key?: string;
+	file_key?: string;
+	language?: string;
+	emoji_type?: string;
+}
+
+function renderPostElement(e: PostElement, attachments: PostAttachment[]): string {
+	switch (e.tag) {
+		case "text": {
+			let t = e.text ?? "";
+			if (!t.trim() || !e.style?.length) return t;
+			if (e.style.includes("bold")) t = `**${t}**`;
+			if (e.style.includes("italic")) t = `*${t}*`;
+			if (e.style.includes("lineThrough")) t = `~~${t}~~`;
+			return t;
+		}
+		case "a":
+			return e.href ? `[${e.text || e.href}](${e.href})` : (e.text ?? "");
+		case "at":
+			// 事件推送里 user_id 是 @_user_N 占位符，交给 stripMentions 统一解析；查询接口返回的是 open_id
+			if (e.user_id === "all" || e.user_id === "@_all") return "@所有人";
+			if (e.user_id?.startsWith("@_")) return e.user_id;
+			return `@${e.user_name || e.user_id || ""}`;
+		case "img":
+			if (!e.image_key) return "";
+			attachments.push({ placeholder: `[图片 ${attachments.length + 1}]`, key: e.image_key, type: "image", ext: ".png" });
+			return attachments[attachments.length - 1]!.placeholder;
+		case "media":
+			if (!e.file_key) return "";
+			attachments.push({ placeholder: `[视频 ${attachments.length + 1}]`, key: e.file_key, type: "file", ext: ".mp4" });
+			return attachments[attachments.length - 1]!.placeholder;
+		case "code_block":
+			return `\n\`\`\`${e.language?.toLowerCase() ?? ""}\n${(e.text ?? "").replace(/\n$/, "")}\n\`\`\`\n`;
+		case "md":
+			return e.text ?? "";
+		case "emotion":
+			return e.emoji_type ? `[${e.emoji_type}]` : "";
+		case "hr":
+			return "\n---\n";
+		default:
+			return e.text ?? "";
+	}
+}
+
+function parsePost(p: Record<string, unknown>): { text: string; attachments: PostAttachment[] } {
+	// 事件推送按语言分组（{ zh_cn: {...} }），消息查询接口直接返回 { title, content }；多语言时取第一种
+	const langs = (Array.isArray(p.content) ? [p] : Object.values(p)) as Array<{
+		title?: string;
+		content?: PostElement[][];
+	}>;
+	const lang = langs.find((l) => Array.isArray(l?.content)) ?? langs[0];
+	const attachments: PostAttachment[] = [];
+	const lines: string[] = [];
+	if (lang?.title) lines.push(`**${lang.title}**`);
+	for (const para of lang?.content ?? []) {
+		lines.push(para.map((e) => renderPostElement(e, attachments)).join(""));
+	}
+	return { text: lines.join("\n").replace(/\n{3,}/g, "\n\n").trim(), attachments };
+}
+
+async function resolvePostAttachments(
+	bot: BotAccount,
+	messageId: string,
+	text: string,
+	attachments: PostAttachment[],
+): Promise<string> {
+	let result = text;
+	for (const a of attachments) {
+		try {
+			const path = await downloadMedia(bot, messageId, a.key, a.type, a.ext);
+			result = result.replace(a.placeholder, `[${a.type === "image" ? "附件图片" : "附件视频"}: ${path}]`);
+		} catch (e) {
+			console.warn(`[富文本] 附件下载失败 ${a.key}: ${e instanceof Error ? e.message : e}`);
+			result = result.replace(a.placeholder, `${a.placeholder.slice(0, -1)}（下载失败）]`);
+		}
+	}
+	return result;
+}
+
 function parseContent(
 	messageType: string,
 	content: string,
-): { text: string; imageKey?: string; fileKey?: string; fileName?: string } {
+): { text: string; imageKey?: string; fileKey?: string; fileName?: string; attachments?: PostAttachment[] } {
 	try {
 		const p = JSON.parse(content);
 		switch (messageType) {
@@ -738,19 +1393,17 @@ function parseContent(
 				return { text: "", fileKey: p.file_key };
 			case "file":
 				return { text: "", fileKey: p.file_key, fileName: p.file_name };
-			case "post": {
-				const texts: string[] = [];
-				for (const lang of Object.values(p) as Array<{
-					title?: string;
-					content?: Array<Array<{ tag: string; text?: string }>>;
-				}>) {
-					if (lang?.title) texts.push(lang.title);
-					if (Array.isArray(lang?.content))
-						for (const para of lang.content)
-							for (const e of para) if (e.tag === "text" && e.text) texts.push(e.text);
-				}
-				return { text: texts.join(" ") };
-			}
+			case "post":
+				return parsePost(p);
+			case "media":
+				return { text: "", fileKey: p.file_key, imageKey: p.image_key, fileName: p.file_name };
+			case "sticker":
+			case "share_chat":
+			case "share_user":
+			case "interactive":
+			case "merge_forward":
+				// 由 describeMessage 展开（需要调用接口或下载）
+				return { text: "" };
 			default:
 				return { text: `[不支持: ${messageType}]` };
 		}
@@ -772,7 +1425,8 @@ function strip(s: string): string {
 }
 
 // ── 项目路由 ─────────────────────────────────────
-function route(text: string): { workspace: string; prompt: string; label: string } {
+// fallbackWorkspace：未写「项目名:」前缀时使用的工作区（如话题已绑定的工作区），缺省为默认项目
+function route(text: string, fallbackWorkspace?: string): { workspace: string; prompt: string; label: string } {
 	const { projects, default_project } = projectsConfig;
 	const m = text.match(/^(\S+?)[:\uff1a]\s*(.+)/s);
 	if (m && projects[m[1].toLowerCase()]) {
@@ -782,6 +1436,13 @@ function route(text: string): { workspace: string; prompt: string; label: string
 			label: m[1].toLowerCase(),
 		};
 	}
+	if (fallbackWorkspace) {
+		return {
+			workspace: fallbackWorkspace,
+			prompt: text.trim(),
+			label: Object.entries(projects).find(([, v]) => v.path === fallbackWorkspace)?.[0] || basename(fallbackWorkspace),
+		};
+	}
 	return {
 		workspace: projects[default_project]?.path || ROOT,
 		prompt: text.trim(),
@@ -789,6 +1450,32 @@ function route(text: string): { workspace: string; prompt: string; label: string
 	};
 }
 
+// 工作区路径 → projects.json 中的项目名（未登记的路径返回 undefined）
+function projectNameOf(workspace: string): string | undefined {
+	return Object.entries(projectsConfig.projects).find(([, v]) => v.path === workspace)?.[0];
+}
+
+// 项目名用作「项目名:消息」前缀（按小写匹配），不能含空白、冒号与斜杠
+const PROJECT_NAME_RE = /^[^\s:：/]+$/;
+
+// 当前路由表（/项目 列表与变更回执共用）
+function formatRoutingTable(): string {
+	const { projects, default_project } = projectsConfig;
+	return Object.entries(projects).map(([name, p]) => {
+		const tag = name === default_project ? " **（默认）**" : "";
+		const desc = p.description ? ` — ${p.description}` : "";
+		return `- \`${name}\`${tag} → \`${p.path}\`${desc}`;
+	}).join("\n");
+}
+
+// 在副本上修改并写回 projects.json（校验 + 原子写入），成功后立即生效；失败时当前配置不变
+function updateProjectsConfig(mutate: (cfg: ProjectsConfig) => void): void {
+	const next = structuredClone(projectsConfig);
+	mutate(next);
+	saveProjectsConfig(next);
+	projectsConfig = next;
+}
+
 // ── 可选模型列表 ─────────────────────────────────
 const CURSOR_MODELS = [
 	{ id: "opus-4.6-thinking", label: "Opus 4.6", desc: "最强深度推理" },
@@ -835,10 +1522,17 @@ function buildModelListCard(currentModel: string, errorHint?: string): string {
 			: `${i + 1}. \`${m.id}\` · ${m.desc}`);
 	}
 	lines.push("");
-	lines.push("> 发送 `/模型 编号` 或 `/模型 名称` 切换");
+	lines.push("> 点击下方按钮，或发送 `/模型 编号`、`/模型 名称` 切换");
 	return lines.join("\n");
 }
 
+function buildModelButtons(currentModel: string, ctx: SessionContext): CardButton[] {
+	return CURSOR_MODELS
+		.map((m, i) => ({ m, i }))
+		.filter(({ m }) => m.id !== currentModel)
+		.map(({ m, i }) => commandButton(`${i + 1}. ${m.id}`, `/模型 ${m.id}`, ctx));
+}
+
 // ── 模型自动降级 ─────────────────────────────────
 // 每次请求都先试首选模型，失败再用 auto 重试
 const BILLING_PATTERNS = [
@@ -864,15 +1558,130 @@ function isBillingError(text: string): boolean {
 }
 
 const childPids = new Set<number>();
-// lockKey → 正在运行的 agent 子进程（用于 /stop 终止）
-const activeAgents = new Map<string, { pid: number; kill: () => void }>();
+// lockKey → 正在运行的 agent 子进程（用于 /stop 终止；停机时以 shutdown 原因终止）
+type AgentStopReason = "user" | "shutdown";
+const activeAgents = new Map<string, { pid: number; kill: (reason?: AgentStopReason) => void }>();
 
-process.on("SIGTERM", () => {
-	for (const pid of childPids) {
+// agent 以独立进程组启动（detached），终止时连同它派生的 shell/工具进程一起结束；5 秒未退出则强杀
+function killProcessTree(pid: number): void {
+	try {
+		process.kill(-pid, "SIGTERM");
+	} catch {
 		try { process.kill(pid, "SIGTERM"); } catch {}
 	}
+	setTimeout(() => {
+		try { process.kill(-pid, "SIGKILL"); } catch {}
+	}, 5000).unref();
+}
+
+// ── 停机 ─────────────────────────────────────────
+// SIGTERM / SIGINT：停止调度与心跳，不再启动排队任务，等待运行中的对话回写完结果（SHUTDOWN_DRAIN_SECONDS，默认 60 秒）。
+// 超时后终止剩余 Agent；排队中与被终止的对话仍留在 .inflight.json，下次启动时恢复。再收到一次信号则立即退出
+let shuttingDown = false;
+const SHUTDOWN_KILL_GRACE_MS = 5000;
+
+// signal 0 只探测不发送：进程组里还有进程则返回 true
+function processGroupAlive(pid: number): boolean {
+	try {
+		process.kill(-pid, 0);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// 退出前必须等到 Agent 真正结束：killProcessTree 的延时 SIGKILL 会随进程退出失效，
+// 而 Agent 是独立进程组，忽略 SIGTERM 的子进程会在服务退出后继续运行
+async function killAllAgents(graceMs: number): Promise<void> {
+	const pids = [...childPids];
+	const marked = new Set<number>();
+	for (const agent of activeAgents.values()) {
+		agent.kill("shutdown");
+		marked.add(agent.pid);
+	}
+	for (const pid of pids) if (!marked.has(pid)) killProcessTree(pid);
+	const deadline = Date.now() + graceMs;
+	while (pids.some(processGroupAlive) && Date.now() < deadline) {
+		await new Promise((r) => setTimeout(r, 100));
+	}
+	for (const pid of pids.filter(processGroupAlive)) {
+		console.warn(`[停机] 进程组 ${pid} 未响应 SIGTERM，强制结束`);
+		try { process.kill(-pid, "SIGKILL"); } catch {}
+	}
+}
+
+async function shutdown(signal: string): Promise<void> {
+	if (shuttingDown) {
+		for (const pid of childPids) {
+			try { process.kill(-pid, "SIGKILL"); } catch {}
+		}
+		process.exit(0);
+	}
+	shuttingDown = true;
+	const { running, waiting } = taskQueue.list();
+	console.log(`[停机] 收到 ${signal}：${running.length} 个任务运行中，${waiting.length} 个排队（重启后恢复）`);
+	scheduler.stop();
+	heartbeat.stop();
+	const deadline = Date.now() + config.SHUTDOWN_DRAIN_SECONDS * 1000;
+	let drained = await taskQueue.drain(deadline - Date.now());
+	// Agent 结束后对话还要回写卡片，等 .inflight.json 中的运行记录清空
+	while (drained && inflight.list().some((r) => r.state === "running")) {
+		if (Date.now() >= deadline) drained = false;
+		else await new Promise((r) => setTimeout(r, 200));
+	}
+	if (!drained) console.warn(`[停机] ${config.SHUTDOWN_DRAIN_SECONDS} 秒内未完成，终止剩余任务`);
+	await killAllAgents(SHUTDOWN_KILL_GRACE_MS);
 	process.exit(0);
-});
+}
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
+
+// ── 执行超时 ─────────────────────────────────────
+// 总时长 / 无输出时长上限，优先级：定时任务 > projects.json 中的项目 > .env（AGENT_TIMEOUT_MINUTES / AGENT_IDLE_TIMEOUT_MINUTES）
+interface AgentTimeoutOverrides {
+	timeoutMinutes?: number;
+	idleTimeoutMinutes?: number;
+}
+
+function resolveAgentTimeouts(workspace: string, override?: AgentTimeoutOverrides): { totalMs: number; idleMs: number } {
+	const project = Object.values(projectsConfig.projects).find((p) => p.path === workspace);
+	const total = override?.timeoutMinutes ?? project?.timeoutMinutes ?? config.AGENT_TIMEOUT_MINUTES;
+	const idle = override?.idleTimeoutMinutes ?? project?.idleTimeoutMinutes ?? config.AGENT_IDLE_TIMEOUT_MINUTES;
+	return { totalMs: total * 60_000, idleMs: idle * 60_000 };
+}
+
+class AgentTimeoutError extends Error {
+	readonly kind: "total" | "idle";
+	readonly limitMs: number;
+	/** 超时前已产生的回复/工具日志 */
+	readonly partialOutput: string;
+
+	constructor(kind: "total" | "idle", limitMs: number, partialOutput: string) {
+		const minutes = Math.round((limitMs / 60_000) * 10) / 10;
+		super(kind === "total" ? `执行超过 ${minutes} 分钟上限` : `Agent 连续 ${minutes} 分钟没有任何输出`);
+		this.name = "AgentTimeoutError";
+		this.kind = kind;
+		this.limitMs = limitMs;
+		this.partialOutput = partialOutput;
+	}
+}
+
+// Agent 被信号终止而非自行结束：
+// user — 用户主动终止（「终止」按钮、/终止、/队列 取消、管理台结束任务），不算失败，卡片显示「已停止」；
+// shutdown — 停机时终止，记录留在 .inflight.json 由下次启动恢复；signal — 被外部信号杀掉（如 OOM）
+class AgentStoppedError extends Error {
+	readonly reason: AgentStopReason | "signal";
+	/** 终止前已产生的回复/工具日志 */
+	readonly partialOutput: string;
+
+	constructor(reason: AgentStopReason | "signal", partialOutput: string, signal?: string | null) {
+		super(reason === "user" ? "任务已被手动终止" : reason === "shutdown" ? "服务停机，任务被中断" : `Agent 被信号 ${signal ?? "未知"} 终止`);
+		this.name = "AgentStoppedError";
+		this.reason = reason;
+		this.partialOutput = partialOutput;
+	}
+}
 
 // ── Agent 执行引擎（直接 spawn CLI + stream-json）──
 const PROGRESS_INTERVAL = 2_000;
@@ -903,9 +1712,86 @@ function formatRelativeTime(ms: number): string {
 }
 
 // ── 会话管理（支持历史列表 + 切换）─────────────────
+// 会话按 sessionKey 存储：工作区路径 + 作用域后缀（#chat:oc_xx / #user:ou_xx / #thread:om_xx）
+// sessionScope = workspace 时 sessionKey 就是工作区路径，与旧版 .sessions.json 一致
+// 非 default 机器人的 sessionKey 在工作区路径后加 #bot:<账号>，同一项目下各机器人会话互不影响
 const SESSIONS_PATH = resolve(import.meta.dirname, ".sessions.json");
 const MAX_SESSION_HISTORY = 20;
 
+interface SessionContext {
+	accountId: string;
+	chatId: string;
+	chatType: string;
+	messageId: string;
+	senderOpenId: string;
+	rootId?: string;
+	/** 被引用/回复的消息 ID */
+	parentId?: string;
+}
+
+// 话题模式（仅群聊）：新的顶层消息开启新会话并以话题回复，话题内回复续接该会话
+function isTopicSessionMode(cfg: FeishuConfig, chatId: string, chatType: string): boolean {
+	if (chatType !== "group") return false;
+	return resolveFeishuGroupConfig({ cfg, groupId: chatId })?.topicSessionMode
+		?? cfg.topicSessionMode ?? false;
+}
+
+function resolveSessionScope(cfg: FeishuConfig, chatId?: string): FeishuSessionScope {
+	const raw = (chatId && resolveFeishuGroupConfig({ cfg, groupId: chatId })?.sessionScope)
+		|| cfg.sessionScope;
+	return raw === "chat" || raw === "sender" || raw === "thread" ? raw : "workspace";
+}
+
+function resolveSessionKey(workspace: string, ctx?: SessionContext): string {
+	if (!ctx) return workspace;
+	const cfg = accountConfig(ctx.accountId);
+	const base = ctx.accountId === DEFAULT_ACCOUNT_ID ? workspace : `${workspace}#bot:${ctx.accountId}`;
+	if (isTopicSessionMode(cfg, ctx.chatId, ctx.chatType)) {
+		return `${base}#chat:${ctx.chatId}#thread:${ctx.rootId || ctx.messageId}`;
+	}
+	switch (resolveSessionScope(cfg, ctx.chatId)) {
+		case "chat":
+			return `${base}#chat:${ctx.chatId}`;
+		case "sender":
+			return `${base}#chat:${ctx.chatId}#user:${ctx.senderOpenId}`;
+		case "thread":
+			return ctx.rootId
+				? `${base}#chat:${ctx.chatId}#thread:${ctx.rootId}`
+				: `${base}#chat:${ctx.chatId}`;
+		default:
+			return base;
+	}
+}
+
+function workspaceOfSessionKey(sessionKey: string): string {
+	const idx = sessionKey.search(/#(bot|chat):/);
+	return idx < 0 ? sessionKey : sessionKey.slice(0, idx);
+}
+
+// 话题内已有会话时返回其工作区（话题内回复无需再写「项目名:」前缀，也无需再 @机器人）
+function findThreadWorkspace(accountId: string, chatId: string, rootId: string): string | undefined {
+	const bot = accountId === DEFAULT_ACCOUNT_ID ? "" : `#bot:${accountId}`;
+	const suffix = `${bot}#chat:${chatId}#thread:${rootId}`;
+	for (const [key, bucket] of sessionsStore) {
+		if (key === bucket.workspace + suffix) return bucket.workspace;
+	}
+	return undefined;
+}
+
+// 卡片展示用的作用域说明（工作区级返回空串）
+function describeSessionScope(sessionKey: string): string {
+	let suffix = sessionKey.slice(workspaceOfSessionKey(sessionKey).length);
+	const bot = suffix.match(/^#bot:([^#]+)/)?.[1];
+	const botDesc = bot ? ` · 机器人 ${bots.get(bot)?.label ?? bot}` : "";
+	if (bot) suffix = suffix.slice(`#bot:${bot}`.length);
+	if (!suffix) return botDesc;
+	const thread = suffix.match(/#thread:(\S+)$/)?.[1];
+	if (thread) return `${botDesc} · 话题 ${thread.slice(-8)}`;
+	const user = suffix.match(/#user:(\S+)$/)?.[1];
+	if (user) return `${botDesc} · 成员 ${user.slice(-8)}`;
+	return `${botDesc} · 会话 ${suffix.slice("#chat:".length).slice(-8)}`;
+}
+
 interface SessionEntry {
 	id: string;
 	createdAt: number;
@@ -913,29 +1799,47 @@ interface SessionEntry {
 	summary: string;
 }
 
-interface WorkspaceSessions {
+interface SessionBucket {
+	workspace: string;
 	active: string | null;
 	history: SessionEntry[];
+	/** 从旧版（按工作区）格式迁移而来，首个细分作用域会接管其活跃会话 */
+	legacy?: boolean;
 }
 
-const sessionsStore: Map<string, WorkspaceSessions> = new Map();
+interface SessionsFile {
+	version: 2;
+	sessions: Record<string, SessionBucket>;
+}
+
+const sessionsStore: Map<string, SessionBucket> = new Map();
 
 function loadSessionsFromDisk(): void {
 	try {
 		if (!existsSync(SESSIONS_PATH)) return;
 		const raw = JSON.parse(readFileSync(SESSIONS_PATH, "utf-8"));
 		sessionsStore.clear();
-		for (const [k, v] of Object.entries(raw)) {
-			if (typeof v === "string") {
-				sessionsStore.set(k, {
-					active: v,
-					history: [{ id: v, createdAt: Date.now(), lastActiveAt: Date.now(), summary: "(旧会话)" }],
-				});
-			} else {
-				sessionsStore.set(k, v as WorkspaceSessions);
+		if (raw?.version === 2) {
+			for (const [k, v] of Object.entries((raw as SessionsFile).sessions)) sessionsStore.set(k, v);
+		} else {
+			// v1：{ [workspace]: sessionId | { active, history } }
+			for (const [k, v] of Object.entries(raw)) {
+				if (typeof v === "string") {
+					sessionsStore.set(k, {
+						workspace: k,
+						active: v,
+						history: [{ id: v, createdAt: Date.now(), lastActiveAt: Date.now(), summary: "(旧会话)" }],
+						legacy: true,
+					});
+				} else {
+					const old = v as { active: string | null; history: SessionEntry[] };
+					sessionsStore.set(k, { workspace: k, active: old.active, history: old.history ?? [], legacy: true });
+				}
 			}
+			console.log("[Session] 已将旧版 .sessions.json 迁移为按作用域存储");
+			saveSessions();
 		}
-		console.log(`[Session] 从磁盘恢复 ${sessionsStore.size} 个工作区会话`);
+		console.log(`[Session] 从磁盘恢复 ${sessionsStore.size} 个会话作用域`);
 	} catch {}
 }
 
@@ -944,7 +1848,8 @@ let sessionsSaving = false;
 function saveSessions(): void {
 	try {
 		sessionsSaving = true;
-		writeFileSync(SESSIONS_PATH, JSON.stringify(Object.fromEntries(sessionsStore), null, 2));
+		const file: SessionsFile = { version: 2, sessions: Object.fromEntries(sessionsStore) };
+		writeFileSync(SESSIONS_PATH, JSON.stringify(file, null, 2));
 	} catch {} finally {
 		setTimeout(() => { sessionsSaving = false; }, 500);
 	}
@@ -959,15 +1864,38 @@ watchFile(SESSIONS_PATH, { interval: 3000 }, () => {
 	} catch {}
 });
 
-function getActiveSessionId(workspace: string): string | undefined {
-	return sessionsStore.get(workspace)?.active || undefined;
+// 细分作用域首次使用时从旧版工作区会话继承：第一个作用域接管活跃会话，其余只继承历史列表
+function getSessionBucket(sessionKey: string): SessionBucket | undefined {
+	const existing = sessionsStore.get(sessionKey);
+	if (existing) return existing;
+	const workspace = workspaceOfSessionKey(sessionKey);
+	// 旧版会话属于 default 机器人，其他机器人不继承
+	const isOtherBot = sessionKey.startsWith(`${workspace}#bot:`);
+	const legacy = workspace !== sessionKey && !isOtherBot ? sessionsStore.get(workspace) : undefined;
+	if (!legacy?.legacy) return undefined;
+	const bucket: SessionBucket = {
+		workspace,
+		active: legacy.active,
+		history: legacy.history.map((h) => ({ ...h })),
+	};
+	if (legacy.active) {
+		console.log(`[Session] ${sessionKey} 接管旧会话 ${legacy.active.slice(0, 12)}`);
+		legacy.active = null;
+	}
+	sessionsStore.set(sessionKey, bucket);
+	saveSessions();
+	return bucket;
+}
+
+function getActiveSessionId(sessionKey: string): string | undefined {
+	return getSessionBucket(sessionKey)?.active || undefined;
 }
 
-function setActiveSession(workspace: string, sessionId: string, summary?: string): void {
-	let ws = sessionsStore.get(workspace);
+function setActiveSession(sessionKey: string, sessionId: string, summary?: string): void {
+	let ws = getSessionBucket(sessionKey);
 	if (!ws) {
-		ws = { active: null, history: [] };
-		sessionsStore.set(workspace, ws);
+		ws = { workspace: workspaceOfSessionKey(sessionKey), active: null, history: [] };
+		sessionsStore.set(sessionKey, ws);
 	}
 
 	const existing = ws.history.find((h) => h.id === sessionId);
@@ -993,8 +1921,8 @@ function setActiveSession(workspace: string, sessionId: string, summary?: string
 	saveSessions();
 }
 
-function updateSessionSummary(workspace: string, sessionId: string, summary: string): void {
-	const ws = sessionsStore.get(workspace);
+function updateSessionSummary(sessionKey: string, sessionId: string, summary: string): void {
+	const ws = sessionsStore.get(sessionKey);
 	if (!ws) return;
 	const entry = ws.history.find((h) => h.id === sessionId);
 	if (entry) {
@@ -1028,7 +1956,7 @@ function generateSessionTitleFallback(prompt: string, result: string): string {
 	return cleaned || prompt.slice(0, 30) || "(对话)";
 }
 
-async function generateSessionTitle(workspace: string, sessionId: string, prompt: string, result: string): Promise<void> {
+async function generateSessionTitle(sessionKey: string, sessionId: string, prompt: string, result: string): Promise<void> {
 	const fallback = generateSessionTitleFallback(prompt, result);
 	try {
 		const context = `用户: ${prompt.slice(0, 200)}\n\nAI回复摘要: ${result.slice(0, 500)}`;
@@ -1056,25 +1984,25 @@ async function generateSessionTitle(workspace: string, sessionId: string, prompt
 			child.on("error", () => { clearTimeout(timeout); resolve(fallback); });
 		});
 
-		updateSessionSummary(workspace, sessionId, title);
+		updateSessionSummary(sessionKey, sessionId, title);
 		console.log(`[Session] LLM 命名: ${title}`);
 	} catch {
-		updateSessionSummary(workspace, sessionId, fallback);
+		updateSessionSummary(sessionKey, sessionId, fallback);
 		console.log(`[Session] 降级命名: ${fallback}`);
 	}
 }
 
-function archiveAndResetSession(workspace: string): void {
-	const ws = sessionsStore.get(workspace);
+function archiveAndResetSession(sessionKey: string): void {
+	const ws = getSessionBucket(sessionKey);
 	if (ws?.active) {
 		ws.active = null;
 		saveSessions();
-		console.log(`[Session ${workspace}] 已归档并重置`);
+		console.log(`[Session ${sessionKey}] 已归档并重置`);
 	}
 }
 
-function switchToSession(workspace: string, sessionId: string): boolean {
-	const ws = sessionsStore.get(workspace);
+function switchToSession(sessionKey: string, sessionId: string): boolean {
+	const ws = getSessionBucket(sessionKey);
 	if (!ws) return false;
 	const entry = ws.history.find((h) => h.id === sessionId);
 	if (!entry) return false;
@@ -1084,8 +2012,8 @@ function switchToSession(workspace: string, sessionId: string): boolean {
 	return true;
 }
 
-function getSessionHistory(workspace: string, limit = 10): SessionEntry[] {
-	const ws = sessionsStore.get(workspace);
+function getSessionHistory(sessionKey: string, limit = 10): SessionEntry[] {
+	const ws = getSessionBucket(sessionKey);
 	if (!ws) return [];
 	return [...ws.history]
 		.sort((a, b) => b.lastActiveAt - a.lastActiveAt)
@@ -1093,23 +2021,12 @@ function getSessionHistory(workspace: string, limit = 10): SessionEntry[] {
 }
 
 // 同一 session 的消息串行执行；不同 session（即使同工作区）可并行
-const sessionLocks = new Map<string, Promise<void>>();
-async function withSessionLock<T>(lockKey: string, fn: () => Promise<T>): Promise<T> {
-	const prev = sessionLocks.get(lockKey) || Promise.resolve();
-	let release!: () => void;
-	const next = new Promise<void>((r) => { release = r; });
-	sessionLocks.set(lockKey, next);
-	await prev;
-	try {
-		return await fn();
-	} finally {
-		release();
-	}
-}
+// 所有 agent 调用经由任务队列：全局并发上限（.env AGENT_MAX_CONCURRENT，默认 3，0 为不限），同会话串行
+const taskQueue = new TaskQueue({ maxConcurrent: () => config.AGENT_MAX_CONCURRENT });
 
-function getLockKey(workspace: string): string {
-	const sid = getActiveSessionId(workspace);
-	return sid ? `session:${sid}` : `ws:${workspace}`;
+function getLockKey(sessionKey: string): string {
+	const sid = getActiveSessionId(sessionKey);
+	return sid ? `session:${sid}` : `ws:${sessionKey}`;
 }
 
 // 解析一行 stream-json 输出
@@ -1186,6 +2103,12 @@ function execAgent(
 	opts?: {
 		sessionId?: string;
 		onProgress?: (p: AgentProgress) => void;
+		/** 每收到一段回复文本即回调当前段落的完整文本（流式卡片用） */
+		onText?: (text: string) => void;
+		/** 总时长 / 无输出时长上限（毫秒），0 表示不限 */
+		timeouts?: { totalMs: number; idleMs: number };
+		/** 每发起一次工具调用回调一次（用量统计、审计） */
+		onToolCall?: (call: { name: string; args?: Record<string, unknown> }) => void;
 	},
 ): Promise<{ result: string; sessionId?: string }> {
 	return new Promise((res, reject) => {
@@ -1205,12 +2128,19 @@ function execAgent(
 		const child = spawn(AGENT_BIN, args, {
 			env: { ...process.env, CURSOR_API_KEY: config.CURSOR_API_KEY },
 			stdio: ["ignore", "pipe", "pipe"],
+			detached: true,
 		});
+		// 经 activeAgents 终止（用户操作或停机）的运行结束时按 AgentStoppedError 上报，不当作正常完成
+		let stopReason: AgentStopReason | undefined;
 		if (child.pid) {
-			childPids.add(child.pid);
+			const pid = child.pid;
+			childPids.add(pid);
 			activeAgents.set(lockKey, {
-				pid: child.pid,
-				kill: () => { try { child.kill("SIGTERM"); } catch {} },
+				pid,
+				kill: (reason = "user") => {
+					stopReason = reason;
+					killProcessTree(pid);
+				},
 			});
 		}
 
@@ -1224,11 +2154,14 @@ function execAgent(
 		let toolBuf = ""; // 工具活动日志（显示在进度卡片中）
 		let done = false;
 		const startTime = Date.now();
+		let lastOutputTime = startTime;
 		let lastProgressTime = 0;
 		let lineBuf = "";
+		let phaseStartedAt = startTime;
 
 		function cleanup() {
 			done = true;
+			metric.agentPhases.observe({ model, phase }, (Date.now() - phaseStartedAt) / 1000);
 			clearInterval(timer);
 			if (child.pid) childPids.delete(child.pid);
 			activeAgents.delete(lockKey);
@@ -1243,9 +2176,21 @@ function execAgent(
 			return assistantBuf.slice(-300);
 		}
 
+		function expire(kind: "total" | "idle", limitMs: number) {
+			const pid = child.pid;
+			cleanup();
+			if (pid) killProcessTree(pid);
+			const partial = strip(assistantBuf) || toolBuf;
+			console.warn(`[超时] ${kind === "total" ? "总时长" : "无输出"}超过 ${limitMs / 1000}s，已终止 pid=${pid} session=${lockKey}`);
+			reject(new AgentTimeoutError(kind, limitMs, partial));
+		}
+
 		const timer = setInterval(() => {
 			if (done) return;
 			const now = Date.now();
+			const limits = opts?.timeouts;
+			if (limits?.totalMs && now - startTime > limits.totalMs) return expire("total", limits.totalMs);
+			if (limits?.idleMs && now - lastOutputTime > limits.idleMs) return expire("idle", limits.idleMs);
 			if (opts?.onProgress && now - lastProgressTime >= PROGRESS_INTERVAL) {
 				lastProgressTime = now;
 				const snippet = getSnippet();
@@ -1281,6 +2226,7 @@ function execAgent(
 								lastSegment += c.text;
 							}
 						}
+						if (lastSegment) opts?.onText?.(lastSegment);
 					}
 					break;
 				case "tool_call":
@@ -1288,6 +2234,8 @@ function execAgent(
 					lastSegment = "";
 					if (ev.tool_call) {
 						if (ev.subtype === "started") {
+							const [key, val] = Object.entries(ev.tool_call)[0] ?? [];
+							opts?.onToolCall?.({ name: key ? key.replace(/ToolCall$/, "") : "unknown", args: val?.args });
 							const desc = describeToolCall(ev.tool_call);
 							toolBuf += (toolBuf ? "\n" : "") + desc;
 						} else if (ev.subtype === "completed") {
@@ -1307,6 +2255,12 @@ function execAgent(
 					break;
 			}
 
+			if (phase !== prevPhase) {
+				const now = Date.now();
+				metric.agentPhases.observe({ model, phase: prevPhase }, (now - phaseStartedAt) / 1000);
+				phaseStartedAt = now;
+			}
+
 			// 阶段切换 或 tool_call 新事件时立即触发进度更新
 			const isToolEvent = ev.type === "tool_call" && ev.tool_call;
 			if ((phase !== prevPhase || isToolEvent) && opts?.onProgress) {
@@ -1321,6 +2275,7 @@ function execAgent(
 		}
 
 		child.stdout!.on("data", (chunk: Buffer) => {
+			lastOutputTime = Date.now();
 			lineBuf += chunk.toString();
 			const lines = lineBuf.split("\n");
 			lineBuf = lines.pop()!;
@@ -1328,10 +2283,11 @@ function execAgent(
 		});
 
 		child.stderr!.on("data", (chunk: Buffer) => {
+			lastOutputTime = Date.now();
 			stderr += chunk.toString();
 		});
 
-		child.on("close", (code) => {
+		child.on("close", (code, signal) => {
 			if (done) return;
 			cleanup();
 			// 处理 lineBuf 中残留的最后一行
@@ -1341,6 +2297,11 @@ function execAgent(
 			const finalSegment = strip(lastSegment);
 			const output = finalSegment || resultText || strip(assistantBuf) || strip(stderr) || "(无输出)";
 
+			// 被信号杀掉时 code 为 null，部分输出不能当作完成结果
+			if (stopReason || code === null) {
+				reject(new AgentStoppedError(stopReason ?? "signal", strip(assistantBuf) || toolBuf, signal));
+				return;
+			}
 			if (code !== 0 && code !== null && !resultText) {
 				reject(new Error(strip(stderr) || output));
 				return;
@@ -1358,170 +2319,746 @@ function execAgent(
 	});
 }
 
-// ── 会话级活跃追踪（lockKey = session:id 或 ws:path）──────
-const busySessions = new Set<string>();
-
 // ── 发送消息（会话优先，欠费降级 auto）──────────
 async function runAgent(
 	workspace: string,
 	prompt: string,
 	opts?: {
 		onProgress?: (p: AgentProgress) => void;
+		onText?: (text: string) => void;
 		onStart?: () => void;
+		/** 会话作用域 key，缺省为工作区路径（定时任务/心跳/蒸馏） */
+		sessionKey?: string;
+		/** 机器人人设；仅在开启新会话时附加到首条消息前 */
+		persona?: string;
+		/** 定时任务级别的超时设置，覆盖项目与全局默认值 */
+		timeouts?: AgentTimeoutOverrides;
+		/** 任务队列信息：id 缺省自动生成，label 缺省取 prompt 开头，后台任务用 low 优先级 */
+		task?: {
+			id?: string;
+			label?: string;
+			priority?: TaskPriority;
+			owner?: string;
+			onQueued?: (pos: QueuePosition) => void;
+		};
+		/** 用量统计来源，缺省为 chat；发起人取 task.owner */
+		usage?: { source: UsageSource; chatId?: string; accountId?: string; job?: string };
 	},
 ): Promise<{ result: string; quotaWarning?: string }> {
 	const primaryModel = config.CURSOR_MODEL;
-	const lockKey = getLockKey(workspace);
+	const sessionKey = opts?.sessionKey ?? workspace;
+	const timeouts = resolveAgentTimeouts(workspace, opts?.timeouts);
+	const lockKey = getLockKey(sessionKey);
+	const withPersona = (p: string) => (opts?.persona ? `${opts.persona.trim()}\n\n---\n\n${p}` : p);
+
+	const task = {
+		id: opts?.task?.id ?? randomUUID().slice(0, 8),
+		label: opts?.task?.label ?? prompt.replace(/\s+/g, " ").slice(0, 40),
+		lockKey,
+		priority: opts?.task?.priority,
+		owner: opts?.task?.owner,
+		onQueued: opts?.task?.onQueued,
+	};
+	const stats = { enqueuedAt: Date.now(), startedAt: 0, model: primaryModel, toolCalls: 0, fallback: false };
+	const auditBase = { accountId: opts?.usage?.accountId, chatId: opts?.usage?.chatId, senderId: task.owner, taskId: task.id };
+	const onToolCall = (call: { name: string; args?: Record<string, unknown> }) => {
+		stats.toolCalls++;
+		metric.agentToolCalls.inc({ tool: call.name });
+		audit.append({ kind: "tool", action: call.name, ...auditBase, detail: { args: clipToolArgs(call.args) } });
+	};
+	const record = (status: UsageStatus, resultChars: number) => {
+		const startedAt = stats.startedAt || Date.now();
+		const source = opts?.usage?.source ?? "chat";
+		metric.agentQueueWait.observe({ source }, (startedAt - stats.enqueuedAt) / 1000);
+		if (stats.startedAt) metric.agentRuns.observe({ model: stats.model, status, source }, (Date.now() - stats.startedAt) / 1000);
+		audit.append({
+			kind: "agent",
+			action: "end",
+			...auditBase,
+			detail: { status, model: stats.model, fallback: stats.fallback, durationMs: stats.startedAt ? Date.now() - stats.startedAt : 0, toolCalls: stats.toolCalls, resultChars },
+		});
+		try {
+			usage?.record({
+				startedAt,
+				durationMs: stats.startedAt ? Date.now() - stats.startedAt : 0,
+				queuedMs: startedAt - stats.enqueuedAt,
+				source: opts?.usage?.source ?? "chat",
+				userId: opts?.task?.owner,
+				chatId: opts?.usage?.chatId,
+				accountId: opts?.usage?.accountId,
+				workspace,
+				project: projectNameOf(workspace),
+				job: opts?.usage?.job,
+				model: stats.model,
+				status,
+				toolCalls: stats.toolCalls,
+				resultChars,
+				fallback: stats.fallback,
+			});
+		} catch (e) {
+			console.warn(`[用量] 记录失败: ${e}`);
+		}
+	};
 
-	return withSessionLock(lockKey, async () => {
-		busySessions.add(lockKey);
+	const run = taskQueue.run(task, async () => {
+		stats.startedAt = Date.now();
+		audit.append({
+			kind: "agent",
+			action: "start",
+			...auditBase,
+			detail: {
+				source: opts?.usage?.source ?? "chat",
+				job: opts?.usage?.job,
+				workspace,
+				model: primaryModel,
+				queuedMs: stats.startedAt - stats.enqueuedAt,
+				prompt: redactForAudit(prompt),
+			},
+		});
 		opts?.onStart?.();
-		try {
-			const existingSessionId = getActiveSessionId(workspace);
-			const isNewSession = !existingSessionId;
+		const existingSessionId = getActiveSessionId(sessionKey);
+		const isNewSession = !existingSessionId;
 
-			try {
-				const { result, sessionId } = await execAgent(lockKey, workspace, primaryModel, prompt, {
-					sessionId: existingSessionId,
-					onProgress: opts?.onProgress,
-				});
-				if (sessionId) {
-					setActiveSession(workspace, sessionId);
-					if (isNewSession) {
-						generateSessionTitle(workspace, sessionId, prompt, result);
-					}
+		try {
+			const { result, sessionId } = await execAgent(lockKey, workspace, primaryModel, isNewSession ? withPersona(prompt) : prompt, {
+				sessionId: existingSessionId,
+				onProgress: opts?.onProgress,
+				onText: opts?.onText,
+				onToolCall,
+				timeouts,
+			});
+			if (sessionId) {
+				setActiveSession(sessionKey, sessionId);
+				if (isNewSession) {
+					generateSessionTitle(sessionKey, sessionId, prompt, result);
 				}
-				return { result };
-			} catch (err) {
-				const e = err instanceof Error ? err : new Error(String(err));
-
-				if (existingSessionId && !isBillingError(e.message)) {
-					console.warn(`[重试] 会话可能过期，重新创建: ${e.message.slice(0, 100)}`);
-					archiveAndResetSession(workspace);
-					try {
-						const { result, sessionId } = await execAgent(lockKey, workspace, primaryModel, prompt, {
-							onProgress: opts?.onProgress,
-						});
-						if (sessionId) {
-							setActiveSession(workspace, sessionId);
-							generateSessionTitle(workspace, sessionId, prompt, result);
-						}
-						return { result };
-					} catch (retryErr) {
-						const re = retryErr instanceof Error ? retryErr : new Error(String(retryErr));
-						if (!isBillingError(re.message)) throw re;
+			}
+			return { result };
+		} catch (err) {
+			// 超时、手动终止都不是会话失效，直接上报（保留会话，重试只会再卡一次）
+			if (err instanceof AgentTimeoutError || err instanceof AgentStoppedError) throw err;
+			const e = err instanceof Error ? err : new Error(String(err));
+
+			if (existingSessionId && !isBillingError(e.message)) {
+				console.warn(`[重试] 会话可能过期，重新创建: ${e.message.slice(0, 100)}`);
+				archiveAndResetSession(sessionKey);
+				try {
+					const { result, sessionId } = await execAgent(lockKey, workspace, primaryModel, withPersona(prompt), {
+						onProgress: opts?.onProgress,
+						onText: opts?.onText,
+						onToolCall,
+						timeouts,
+					});
+					if (sessionId) {
+						setActiveSession(sessionKey, sessionId);
+						generateSessionTitle(sessionKey, sessionId, prompt, result);
 					}
+					return { result };
+				} catch (retryErr) {
+					if (retryErr instanceof AgentTimeoutError || retryErr instanceof AgentStoppedError) throw retryErr;
+					const re = retryErr instanceof Error ? retryErr : new Error(String(retryErr));
+					if (!isBillingError(re.message)) throw re;
 				}
+			}
 
-				if (isBillingError(e.message)) {
-					console.error(`[降级] ${primaryModel} 欠费: ${e.message.slice(0, 200)}`);
-					const fallbackSessionId = getActiveSessionId(workspace);
-					try {
-						const { result, sessionId: newSid } = await execAgent(lockKey, workspace, "auto", prompt, {
-							sessionId: fallbackSessionId,
-							onProgress: opts?.onProgress,
-						});
-						if (newSid) {
-							setActiveSession(workspace, newSid);
-							if (!fallbackSessionId) {
-								generateSessionTitle(workspace, newSid, prompt, result);
-							}
+			if (isBillingError(e.message)) {
+				console.error(`[降级] ${primaryModel} 欠费: ${e.message.slice(0, 200)}`);
+				const fallbackSessionId = getActiveSessionId(sessionKey);
+				stats.model = "auto";
+				stats.fallback = true;
+				try {
+					const { result, sessionId: newSid } = await execAgent(lockKey, workspace, "auto", fallbackSessionId ? prompt : withPersona(prompt), {
+						sessionId: fallbackSessionId,
+						onProgress: opts?.onProgress,
+						onText: opts?.onText,
+						onToolCall,
+						timeouts,
+					});
+					if (newSid) {
+						setActiveSession(sessionKey, newSid);
+						if (!fallbackSessionId) {
+							generateSessionTitle(sessionKey, newSid, prompt, result);
 						}
-						return {
-							result,
-							quotaWarning: `⚠️ **模型降级通知**\n\n${primaryModel} 欠费，本次已用 auto 完成。\n\n> ${e.message.slice(0, 100)}`,
-						};
-					} catch {
-						throw e;
 					}
+					return {
+						result,
+						quotaWarning: `⚠️ **模型降级通知**\n\n${primaryModel} 欠费，本次已用 auto 完成。\n\n> ${e.message.slice(0, 100)}`,
+					};
+				} catch (fallbackErr) {
+					if (fallbackErr instanceof AgentTimeoutError || fallbackErr instanceof AgentStoppedError) throw fallbackErr;
+					throw e;
 				}
-
-				archiveAndResetSession(workspace);
-				throw e;
 			}
-		} finally {
-			busySessions.delete(lockKey);
+
+			archiveAndResetSession(sessionKey);
+			throw e;
 		}
 	});
+	return run.then(
+		(out) => {
+			record("ok", out.result.length);
+			return out;
+		},
+		(err) => {
+			if (err instanceof TaskCancelledError) record("cancelled", 0);
+			else if (err instanceof AgentStoppedError) record("cancelled", err.partialOutput.length);
+			else if (err instanceof AgentTimeoutError) record("timeout", err.partialOutput.length);
+			else record("error", 0);
+			throw err;
+		},
+	);
+}
+
+// ── 用量报表（/用量 + 每日汇总卡片）──────────────
+const USAGE_SUMMARY_TIME = "09:00";
+
+interface UsageRange {
+	label: string;
+	since: number;
+	until: number;
+	/** 多天范围额外列出逐日明细 */
+	daily: boolean;
+}
+
+function parseUsageRange(arg: string): UsageRange | undefined {
+	const midnight = new Date();
+	midnight.setHours(0, 0, 0, 0);
+	const today = midnight.getTime();
+	const now = Date.now();
+	switch (arg.toLowerCase()) {
+		case "":
+		case "今天":
+		case "今日":
+		case "today":
+			return { label: "今天", since: today, until: now, daily: false };
+		case "昨天":
+		case "yesterday":
+			return { label: "昨天", since: today - DAY_MS, until: today, daily: false };
+		case "周":
+		case "本周":
+		case "7天":
+		case "week":
+			return { label: "近 7 天", since: today - 6 * DAY_MS, until: now, daily: true };
+		case "月":
+		case "本月":
+		case "30天":
+		case "month":
+			return { label: "近 30 天", since: today - 29 * DAY_MS, until: now, daily: true };
+	}
+	return undefined;
+}
+
+function describeUsageSource(key: string): string {
+	if (key.startsWith("cron:")) return `定时任务「${key.slice(5)}」`;
+	const labels: Record<string, string> = { chat: "飞书对话", cron: "定时任务", heartbeat: "心跳检查", distill: "记忆蒸馏", boot: "启动自检" };
+	return labels[key] ?? key;
+}
+
+async function buildUsageReport(bot: BotAccount, range: UsageRange): Promise<string> {
+	if (!usage) return "用量统计不可用（.usage.sqlite 初始化失败，详见服务日志）。";
+	const tracker = usage;
+	const totals = tracker.totals(range.since, range.until);
+	if (totals.runs === 0) return `${range.label}没有 Agent 调用记录。`;
+
+	const fmt = (t: UsageTotals) => `${t.runs} 次 · ${formatElapsed(Math.round(t.durationMs / 1000))} · 工具 ${t.toolCalls} 次`;
+	const lines = [`**合计**：${fmt(totals)} · 输出 ${totals.resultChars.toLocaleString()} 字`];
+	const issues = [
+		totals.errors > 0 ? `失败 ${totals.errors}` : "",
+		totals.timeouts > 0 ? `超时 ${totals.timeouts}` : "",
+		totals.fallbacks > 0 ? `降级 auto ${totals.fallbacks}` : "",
+	].filter(Boolean);
+	if (issues.length > 0) lines.push(`⚠️ ${issues.join(" · ")}`);
+
+	const section = async (title: string, dim: UsageDimension, name: (key: string) => string | Promise<string>) => {
+		const rows = tracker.breakdown(dim, range.since, range.until, dim === "day" ? 31 : 10);
+		if (rows.length === 0) return;
+		lines.push("", `**${title}**`);
+		for (const r of rows) lines.push(`- ${await name(r.key)}：${fmt(r)}`);
+	};
+	if (range.daily) await section("按天", "day", (k) => k);
+	await section("按用户", "user", (k) => (k ? resolveUserName(bot, k) : "（后台任务）"));
+	await section("按项目", "project", (k) => (isAbsolute(k) ? basename(k) : k));
+	await section("按模型", "model", (k) => k);
+	await section("按来源", "source", describeUsageSource);
+	return lines.join("\n");
+}
+
+// 每日汇总：feishu.json 配置 usageSummary 后，每天 time 之后推送前一天的用量（发送日期记在 .usage.sqlite，重启不重发）
+// 发送成功才记日期：重启后暂无目标会话或发送失败时，之后每分钟重试
+// time 的格式已由 config.ts 校验
+function parseSummaryTime(raw: string | undefined): number {
+	const [h = 0, m = 0] = (raw || USAGE_SUMMARY_TIME).split(":").map(Number);
+	return h * 60 + m;
+}
+
+let summaryNoTargetWarnedOn: string | undefined;
+
+async function checkUsageSummary(): Promise<void> {
+	const summaryCfg = feishuConfig.usageSummary;
+	if (!usage || !summaryCfg || summaryCfg.enabled === false) return;
+	const now = new Date();
+	if (now.getHours() * 60 + now.getMinutes() < parseSummaryTime(summaryCfg.time)) return;
+	const today = now.toDateString();
+	if (usage.getMeta("summary_sent") === today) return;
+
+	const bot = bots.get(DEFAULT_ACCOUNT_ID) ?? [...bots.values()][0];
+	const target = summaryCfg.chatId && bot ? { bot, chatId: summaryCfg.chatId } : lastActive;
+	if (!target) {
+		if (summaryNoTargetWarnedOn !== today) {
+			summaryNoTargetWarnedOn = today;
+			console.warn("[用量] 无目标会话（未配置 usageSummary.chatId 且无活跃会话），有会话后再发送每日汇总");
+		}
+		return;
+	}
+	const range = parseUsageRange("昨天")!;
+	const report = await buildUsageReport(target.bot, range);
+	const date = new Date(range.since).toLocaleDateString("zh-CN");
+	const sent = await sendCard(target.bot, target.chatId, `${report}\n\n---\n发送 \`/用量 周\` 查看近 7 天`, { title: `📊 用量日报 · ${date}`, color: "blue" });
+	if (!sent) {
+		console.warn(`[用量] 每日汇总发送失败 (${date})，稍后重试`);
+		return;
+	}
+	usage.setMeta("summary_sent", today);
+	console.log(`[用量] 已发送每日汇总 (${date})`);
+}
+
+setInterval(() => {
+	checkUsageSummary().catch((e) => console.warn(`[用量] 每日汇总发送失败: ${e}`));
+}, 60_000).unref();
+
+// ── 审计记录展示（/审计）──────────────────────────
+const AUDIT_STATUS_LABELS: Record<string, string> = { ok: "完成", error: "失败", timeout: "超时", cancelled: "已取消" };
+
+async function formatAuditEntry(bot: BotAccount, e: AuditEntry): Promise<string> {
+	const d = e.detail ?? {};
+	const time = new Date(e.ts).toLocaleString("zh-CN", { month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit", second: "2-digit", hour12: false });
+	const who = e.senderId ? await resolveUserName(bot, e.senderId) : "后台";
+	const brief = (v: unknown, max = 60) => String(v ?? "").replace(/\s+/g, " ").replace(/`/g, "'").slice(0, max);
+	let body: string;
+	switch (e.kind) {
+		case "message":
+			body = e.action === "rejected"
+				? `🚫 拒绝（${d.reason ?? "-"}）${brief(d.text ?? d.command)}`
+				: e.action === "button"
+					? `🔘 按钮 ${brief(d.command ?? "终止")}`
+					: `📨 ${brief(d.text) || `[${d.messageType}]`}`;
+			break;
+		case "command": {
+			const label = COMMAND_PERMISSIONS[e.action as CommandId]?.label ?? e.action;
+			body = `⌨️ ${label}${d.allowed === false ? "（无权限）" : ""}`;
+			break;
+		}
+		case "config":
+			body = `⚙️ ${e.action} ${brief(JSON.stringify(d), 80)}`;
+			break;
+		case "agent":
+			body = e.action === "start"
+				? `▶️ 开始 \`${e.taskId}\` · ${brief(d.source)} · ${brief(d.model)} · ${brief(d.prompt, 40)}`
+				: `⏹ ${AUDIT_STATUS_LABELS[String(d.status)] ?? brief(d.status)} \`${e.taskId}\` · ${formatElapsed(Math.round(Number(d.durationMs ?? 0) / 1000))} · 工具 ${d.toolCalls ?? 0} 次`;
+			break;
+		case "tool":
+			body = `🔧 \`${e.taskId}\` ${e.action} ${brief(JSON.stringify(d.args ?? {}), 80)}`;
+			break;
+	}
+	return `- \`${time}\` ${who} · ${body}`;
 }
 
 // ── 去重 + 并发控制 + 排队 ───────────────────────
-const seen = new Map<string, number>();
-function isDup(id: string): boolean {
+// 服务重启/长连接重连后飞书会重投事件：按机器人账号持久化记录 24 小时（.dedup/<账号>.json，每账号最多 1 万条）
+setFeishuDedupDir(resolve(import.meta.dirname, ".dedup"));
+
+async function isDup(bot: BotAccount, messageId: string): Promise<boolean> {
+	const fresh = await tryRecordMessagePersistent(messageId, bot.id, (msg) => console.warn(`[去重] ${msg}`));
+	return !fresh;
+}
+
+// ── 访问控制（私聊/群聊策略 + 白名单）──────────────
+// dmPolicy: open（默认）| allowlist（仅 allowFrom）| disabled
+// groupPolicy: open（默认）| allowlist（仅 groupAllowFrom 中的群）| disabled
+// groups[chatId].allowFrom 非空时，群内再按发送者白名单过滤
+type ChatPolicy = "open" | "allowlist" | "disabled";
+const REJECTED_LOG_PATH = resolve(import.meta.dirname, ".rejected-senders.jsonl");
+const REJECT_NOTICE_INTERVAL = 10 * 60 * 1000;
+
+// 未配置为 open；取值已由 config.ts 校验，万一出现未知值按 disabled 处理，不放开访问
+function normalizePolicy(raw: string | undefined): ChatPolicy {
+	if (raw === undefined) return "open";
+	return raw === "open" || raw === "allowlist" ? raw : "disabled";
+}
+
+interface SenderInfo {
+	openId: string;
+	userId?: string;
+	unionId?: string;
+}
+
+type AccessDecision =
+	| { allowed: true }
+	| { allowed: false; reason: "dm-disabled" | "dm-not-allowed" | "group-disabled" | "group-not-allowed" | "sender-not-allowed" };
+
+function checkAccess(cfg: FeishuConfig, chatId: string, chatType: string, sender: SenderInfo): AccessDecision {
+	const senderIds = [sender.userId, sender.unionId];
+	if (chatType !== "group") {
+		const dmPolicy = normalizePolicy(cfg.dmPolicy);
+		if (dmPolicy === "disabled") return { allowed: false, reason: "dm-disabled" };
+		if (dmPolicy === "open") return { allowed: true };
+		const match = resolveFeishuAllowlistMatch({ allowFrom: cfg.allowFrom ?? [], senderId: sender.openId, senderIds });
+		return match.allowed ? { allowed: true } : { allowed: false, reason: "dm-not-allowed" };
+	}
+
+	// groupAllowFrom 里是群 ID（oc_xxx），不是用户 ID
+	const groupPolicy = normalizePolicy(cfg.groupPolicy);
+	if (groupPolicy === "disabled") return { allowed: false, reason: "group-disabled" };
+	if (!isFeishuGroupAllowed({ groupPolicy, allowFrom: cfg.groupAllowFrom ?? [], senderId: chatId })) {
+		return { allowed: false, reason: "group-not-allowed" };
+	}
+	const senderAllowFrom = resolveFeishuGroupConfig({ cfg, groupId: chatId })?.allowFrom ?? [];
+	if (senderAllowFrom.length > 0
+		&& !resolveFeishuAllowlistMatch({ allowFrom: senderAllowFrom, senderId: sender.openId, senderIds }).allowed) {
+		return { allowed: false, reason: "sender-not-allowed" };
+	}
+	return { allowed: true };
+}
+
+function logRejectedSender(entry: {
+	chatId: string;
+	chatType: string;
+	sender: SenderInfo;
+	reason: string;
+	messageType: string;
+	preview: string;
+}): void {
+	console.warn(`[权限] 拒绝 sender=${entry.sender.openId} chat=${entry.chatId} (${entry.chatType}) reason=${entry.reason}`);
+	try {
+		appendFileSync(REJECTED_LOG_PATH, JSON.stringify({ time: new Date().toISOString(), ...entry }) + "\n");
+	} catch {}
+}
+
+// 同一 key（群级拒绝按群，其余按群+发送者）10 分钟内只提示一次，避免刷屏
+const rejectNoticeAt = new Map<string, number>();
+function shouldNotifyRejection(key: string): boolean {
 	const now = Date.now();
-	for (const [k, t] of seen) if (now - t > 60_000) seen.delete(k);
-	if (seen.has(id)) return true;
-	seen.set(id, now);
-	return false;
+	for (const [k, t] of rejectNoticeAt) if (now - t > REJECT_NOTICE_INTERVAL) rejectNoticeAt.delete(k);
+	if (rejectNoticeAt.has(key)) return false;
+	rejectNoticeAt.set(key, now);
+	return true;
+}
+
+function buildRejectionText(reason: Exclude<AccessDecision, { allowed: true }>["reason"], chatId: string, senderOpenId: string): string {
+	switch (reason) {
+		case "dm-disabled":
+			return "抱歉，机器人目前未开放私聊使用。\n\n如有需要，请联系管理员。";
+		case "group-disabled":
+			return "抱歉，机器人目前未开放群聊使用。\n\n如有需要，请联系管理员。";
+		case "group-not-allowed":
+			return `抱歉，本群尚未开通机器人。\n\n如需开通，请把群 ID 发给管理员加入 \`groupAllowFrom\`：\n\n\`${chatId}\``;
+		default:
+			return `抱歉，机器人目前仅对授权成员开放。\n\n如需使用，请把你的 ID 发给管理员加入白名单：\n\n\`${senderOpenId}\``;
+	}
+}
+
+function describeAccessPolicy(cfg: FeishuConfig): string {
+	const dm = normalizePolicy(cfg.dmPolicy);
+	const group = normalizePolicy(cfg.groupPolicy);
+	const dmDesc = dm === "allowlist" ? `白名单（${cfg.allowFrom?.length ?? 0} 人）` : dm === "disabled" ? "关闭" : "开放";
+	const groupDesc = group === "allowlist" ? `白名单（${cfg.groupAllowFrom?.length ?? 0} 个群）` : group === "disabled" ? "关闭" : "开放";
+	return `私聊 ${dmDesc} · 群聊 ${groupDesc}`;
 }
+
+// ── 指令权限（owner > admin > member > guest）────────
+// 未配置 roles 时所有人视为 owner（保持单人使用时的行为）
+const ROLE_RANK: Record<FeishuRole, number> = { guest: 0, member: 1, admin: 2, owner: 3 };
+const ROLE_LABELS: Record<FeishuRole, string> = { owner: "所有者", admin: "管理员", member: "成员", guest: "访客" };
+
+const COMMAND_PERMISSIONS = {
+	"help": { role: "guest", label: "/帮助" },
+	"status": { role: "guest", label: "/状态" },
+	"chat": { role: "member", label: "与 AI 对话" },
+	"new": { role: "member", label: "/新对话" },
+	"sessions": { role: "member", label: "/会话" },
+	"stop": { role: "member", label: "/终止" },
+	"queue.view": { role: "member", label: "/队列" },
+	"queue.manage": { role: "admin", label: "/队列 取消/置顶（他人的任务）" },
+	"memory": { role: "member", label: "/记忆" },
+	"log": { role: "member", label: "/记录" },
+	"reindex": { role: "admin", label: "/整理记忆" },
+	"model.view": { role: "member", label: "/模型" },
+	"model.switch": { role: "admin", label: "/模型 切换" },
+	"apikey.view": { role: "admin", label: "/密钥" },
+	"apikey.set": { role: "owner", label: "/密钥 更换" },
+	"task.view": { role: "member", label: "/任务" },
+	"task.manage": { role: "admin", label: "/任务 暂停/恢复/删除/执行" },
+	"heartbeat.view": { role: "member", label: "/心跳" },
+	"heartbeat.manage": { role: "admin", label: "/心跳 开启/关闭/执行/间隔" },
+	"usage": { role: "admin", label: "/用量" },
+	"audit.view": { role: "admin", label: "/审计" },
+	"audit.export": { role: "owner", label: "/审计 导出" },
+	"project.view": { role: "member", label: "/项目" },
+	"project.manage": { role: "owner", label: "/项目 添加/删除/默认/描述" },
+} as const satisfies Record<string, { role: FeishuRole; label: string }>;
+
+type CommandId = keyof typeof COMMAND_PERMISSIONS;
+
+function resolveRole(cfg: FeishuConfig, senderOpenId: string): FeishuRole {
+	const roles = cfg.roles;
+	if (!roles) return "owner";
+	for (const role of ["owner", "admin", "member", "guest"] as const) {
+		const list = roles[role] ?? [];
+		if (list.length > 0 && resolveFeishuAllowlistMatch({ allowFrom: list, senderId: senderOpenId }).allowed) return role;
+	}
+	return roles.defaultRole ?? "member";
+}
+
+function hasPermission(role: FeishuRole, cmd: CommandId): boolean {
+	return ROLE_RANK[role] >= ROLE_RANK[COMMAND_PERMISSIONS[cmd].role];
+}
+
+function buildNoPermissionText(cmd: CommandId, role: FeishuRole): string {
+	const { role: required, label } = COMMAND_PERMISSIONS[cmd];
+	return `抱歉，**${label}** 需要「${ROLE_LABELS[required]}」及以上权限，你当前是「${ROLE_LABELS[role]}」。\n\n如需开通，请联系管理员。`;
+}
+
+// ── 群聊 @机器人 判定 ────────────────────────────
+// 机器人 open_id 通过 /bot/v3/info 获取；获取失败时一律视为未 @机器人（否则 @同事 也会触发 Agent）
+async function resolveBotOpenId(bot: BotAccount): Promise<string | undefined> {
+	if (bot.openId) return bot.openId;
+	// 失败后 1 分钟内不重复请求
+	if (Date.now() - bot.infoFetchedAt < 60_000) return undefined;
+	bot.infoFetchedAt = Date.now();
+	try {
+		const res = await bot.client.request<{ code?: number; msg?: string; bot?: { open_id?: string; app_name?: string } }>({
+			method: "GET",
+			url: "/open-apis/bot/v3/info",
+		});
+		if (res.code === 0 && res.bot?.open_id) {
+			bot.openId = res.bot.open_id;
+			console.log(`[机器人] ${bot.id}: ${res.bot.app_name ?? ""} open_id=${bot.openId}`);
+		} else {
+			console.warn(`[机器人] ${bot.id}: 获取 open_id 失败: ${res.msg ?? res.code}`);
+		}
+	} catch (e) {
+		console.warn(`[机器人] ${bot.id}: 获取 open_id 失败: ${e instanceof Error ? e.message : e}`);
+	}
+	return bot.openId;
+}
+
+async function isBotMentioned(bot: BotAccount, event: FeishuMessageEvent): Promise<boolean> {
+	const mentions = event.message.mentions ?? [];
+	if (mentions.length === 0) return false;
+	const openId = await resolveBotOpenId(bot);
+	if (!openId) {
+		console.warn(`[机器人] ${bot.id}: open_id 未知，无法确认是否 @机器人，忽略该群消息 ${event.message.message_id}`);
+		return false;
+	}
+	return mentions.some((m) => m.id.open_id === openId);
+}
+
+// 去掉 @机器人 占位符；@其他人 替换为 @姓名，保留语义
+function stripMentions(bot: BotAccount, text: string, event: FeishuMessageEvent): string {
+	const mentions = event.message.mentions ?? [];
+	if (mentions.length === 0) return text;
+	const others = bot.openId ? extractMentionTargets(event, bot.openId) : [];
+	let result = text;
+	for (const t of others) result = result.replaceAll(t.key, `@${t.name}`);
+	const botKeys = mentions.filter((m) => !others.some((t) => t.key === m.key)).map((m) => m.key);
+	return extractMessageBody(result, botKeys);
+}
+
+// ── 卡片按钮回调 ─────────────────────────────────
+// 回调需在 3 秒内应答：「终止」直接执行；其余按钮转成对应指令，异步走正常消息流程（含权限校验），结果以新卡片回复
+const MAX_LIST_BUTTONS = 10;
+
+function commandButton(text: string, command: string, ctx: SessionContext, type?: CardButton["type"]): CardButton {
+	return { text, value: { action: "command", command, chatType: ctx.chatType, rootId: ctx.rootId }, type };
+}
+
+type CardActionResponse = { toast: { type: "success" | "error" | "info" | "warning"; content: string } };
+
+function toast(type: CardActionResponse["toast"]["type"], content: string): CardActionResponse {
+	return { toast: { type, content } };
+}
+
+async function handleCardAction(bot: BotAccount, ev: Record<string, unknown>): Promise<CardActionResponse> {
+	const operator = (ev.operator ?? {}) as { open_id?: string; user_id?: string; union_id?: string };
+	const value = (ev.action as { value?: CardActionValue } | undefined)?.value;
+	const context = (ev.context ?? {}) as { open_message_id?: string; open_chat_id?: string };
+	const messageId = context.open_message_id;
+	const chatId = context.open_chat_id;
+	if (!value?.action || !messageId || !chatId || !operator.open_id) return toast("error", "无法识别的操作");
+
+	metric.events.inc({ account: bot.id, type: "card_action" });
+	const cfg = accountConfig(bot.id);
+	const sender: SenderInfo = { openId: operator.open_id, userId: operator.user_id, unionId: operator.union_id };
+	const access = checkAccess(cfg, chatId, value.chatType, sender);
+	audit.append({
+		kind: "message",
+		action: access.allowed ? "button" : "rejected",
+		accountId: bot.id,
+		chatId,
+		senderId: sender.openId,
+		detail: {
+			messageId,
+			chatType: value.chatType,
+			...(value.action === "stop" ? { stop: value.lockKey } : value.action === "resume" ? { resume: value.taskId } : { command: value.command }),
+		},
+	});
+	if (!access.allowed) return toast("error", "暂无使用权限");
+	console.log(`[按钮] ${sender.openId} → ${value.action === "stop" ? `终止 ${value.lockKey}` : value.action === "resume" ? `重新执行 ${value.taskId}` : value.command}`);
+
+	if (value.action === "stop") {
+		if (!hasPermission(resolveRole(cfg, sender.openId), "stop")) return toast("error", "无权终止任务");
+		const agent = activeAgents.get(value.lockKey);
+		if (!agent) return toast("info", "任务已结束");
+		agent.kill();
+		console.log(`[按钮] 终止 agent pid=${agent.pid} session=${value.lockKey}`);
+		return toast("success", "已终止");
+	}
+
+	if (value.action === "resume") {
+		const run = inflight.get(value.taskId);
+		if (!run || run.state !== "interrupted" || run.accountId !== bot.id) return toast("info", "任务已重新执行或已过期");
+		// 自己发起的任务成员即可重新执行，他人的需管理员
+		if (!hasPermission(resolveRole(cfg, sender.openId), run.senderOpenId === sender.openId ? "chat" : "queue.manage")) {
+			return toast("error", "无权重新执行该任务");
+		}
+		resumeInterruptedRun(bot, run, sender.openId).catch(console.error);
+		return toast("success", "已重新执行");
+	}
+
+	handle({
+		bot,
+		text: value.command,
+		messageId,
+		chatId,
+		chatType: value.chatType,
+		messageType: "text",
+		content: JSON.stringify({ text: value.command }),
+		senderOpenId: sender.openId,
+		rootId: value.rootId,
+	}).catch(console.error);
+	return toast("info", `已发送 ${value.command}`);
+}
+
 // ── 消息处理 ─────────────────────────────────────
 async function handle(params: {
+	bot: BotAccount;
 	text: string;
 	messageId: string;
 	chatId: string;
 	chatType: string;
 	messageType: string;
 	content: string;
+	senderOpenId: string;
+	rootId?: string;
+	parentId?: string;
 }) {
-	const { messageId, chatId, chatType, messageType, content } = params;
+	const { bot, messageId, chatId, chatType, messageType, content, senderOpenId, rootId, parentId } = params;
 	let { text } = params;
 	// 记录最近活跃会话用于定时任务/心跳主动推送
-	lastActiveChatId = chatId;
+	lastActive = { chatId, bot };
 	console.log(`[${new Date().toISOString()}] [${messageType}] ${text.slice(0, 80)}`);
 
-	return handleInner(text, messageId, chatId, chatType, messageType, content);
+	const sessionCtx: SessionContext = { accountId: bot.id, chatId, chatType, messageId, senderOpenId, rootId, parentId };
+	if (isTopicSessionMode(accountConfig(bot.id), chatId, chatType)) threadReplyMessages.add(messageId);
+	try {
+		return await handleInner(bot, text, messageId, chatId, chatType, messageType, content, sessionCtx);
+	} finally {
+		threadReplyMessages.delete(messageId);
+	}
 }
 
 async function handleInner(
+	bot: BotAccount,
 	text: string,
 	messageId: string,
 	chatId: string,
 	chatType: string,
 	messageType: string,
 	content: string,
+	sessionCtx: SessionContext,
 ): Promise<void> {
 	let cardId: string | undefined;
 	const isGroup = chatType === "group";
+	const cfg = accountConfig(bot.id);
+	// 话题已绑定的工作区优先，其次是机器人的默认项目
+	const threadWorkspace = sessionCtx.rootId ? findThreadWorkspace(bot.id, chatId, sessionCtx.rootId) : undefined;
+	const fallbackWorkspace = threadWorkspace ?? botDefaultWorkspace(bot);
+	const role = resolveRole(cfg, sessionCtx.senderOpenId);
+	// 无权限时回复提示卡片并返回 true
+	const auditCtx = { accountId: bot.id, chatId, senderId: sessionCtx.senderOpenId };
+	const denied = async (cmd: CommandId): Promise<boolean> => {
+		const allowed = hasPermission(role, cmd);
+		metric.commands.inc({ command: cmd, result: allowed ? "allowed" : "denied" });
+		if (cmd !== "chat" || !allowed) audit.append({ kind: "command", action: cmd, ...auditCtx, detail: { messageId, role, allowed, text: redactForAudit(text) } });
+		if (allowed) return false;
+		console.warn(`[权限] ${sessionCtx.senderOpenId} (${role}) 无权执行 ${cmd}`);
+		const body = buildNoPermissionText(cmd, role);
+		if (cardId) await updateCard(bot, cardId, body, { title: "🚫 无权限", color: "red" });
+		else await replyCard(bot, messageId, body, { title: "🚫 无权限", color: "red" });
+		return true;
+	};
 	// 处理媒体附件
 	const parsed = parseContent(messageType, content);
-	try {
-		if (parsed.imageKey) {
-			const path = await downloadMedia(messageId, parsed.imageKey, "image", ".png");
-			text = text
-				? `${text}\n\n[附件图片: ${path}]`
-				: `用户发了一张图片，已保存到 ${path}，请查看并回复。`;
-		}
-		if (parsed.fileKey && messageType === "audio") {
-			if (!cardId) {
-				cardId = await replyCard(messageId, "🎙️ 正在识别语音...", { title: "语音识别中", color: "wathet" });
-			} else {
-				await updateCard(cardId, "🎙️ 正在识别语音...", { title: "语音识别中", color: "wathet" });
+	// 下载附件、语音识别、展开聊天记录都只为对话服务：无对话权限时先拒绝，不替访客做这些工作；
+	// 带附件的指令（如图文消息里的 /帮助）照常按指令处理，只是不处理附件
+	const hasMedia = Boolean(parsed.imageKey || parsed.fileKey || parsed.attachments?.length || EXPANDED_TYPES.has(messageType));
+	const skipMedia = hasMedia && !hasPermission(role, "chat");
+	if (skipMedia && !text.trim().startsWith("/")) {
+		await denied("chat");
+		return;
+	}
+	if (!skipMedia) {
+		try {
+			if (parsed.imageKey && messageType === "image") {
+				const path = await downloadMedia(bot, messageId, parsed.imageKey, "image", ".png");
+				text = text
+					? `${text}\n\n[附件图片: ${path}]`
+					: `用户发了一张图片，已保存到 ${path}，请查看并回复。`;
 			}
-			const audioPath = await downloadMedia(messageId, parsed.fileKey, "file", ".ogg");
-			const transcript = await transcribeAudio(audioPath);
-			try { unlinkSync(audioPath); } catch {}
-			if (transcript) {
-				text = transcript;
-				console.log(`[语音] 转文字成功: ${transcript.slice(0, 80)}`);
-			} else {
-				text = `用户发了一条语音消息，音频文件在 ${audioPath}，请处理并回复。`;
-				console.warn("[语音] 转文字失败，传原始文件路径");
+			if (parsed.attachments?.length) {
+				text = await resolvePostAttachments(bot, messageId, text, parsed.attachments);
+			}
+			if (parsed.fileKey && messageType === "audio") {
+				if (!cardId) {
+					cardId = await replyCard(bot, messageId, "🎙️ 正在识别语音...", { title: "语音识别中", color: "wathet" });
+				} else {
+					await updateCard(bot, cardId, "🎙️ 正在识别语音...", { title: "语音识别中", color: "wathet" });
+				}
+				const audioPath = await downloadMedia(bot, messageId, parsed.fileKey, "file", ".ogg");
+				const transcript = await transcribeAudio(audioPath);
+				try { unlinkSync(audioPath); } catch {}
+				if (transcript) {
+					text = transcript;
+					console.log(`[语音] 转文字成功: ${transcript.slice(0, 80)}`);
+				} else {
+					text = `用户发了一条语音消息，音频文件在 ${audioPath}，请处理并回复。`;
+					console.warn("[语音] 转文字失败，传原始文件路径");
+				}
+			}
+			if (parsed.fileKey && messageType === "file") {
+				const dotIdx = parsed.fileName?.lastIndexOf(".");
+				const ext = dotIdx != null && dotIdx > 0 ? parsed.fileName!.slice(dotIdx) : "";
+				const path = await downloadMedia(bot, messageId, parsed.fileKey, "file", ext);
+				text = text
+					? `${text}\n\n[附件: ${path}]`
+					: `用户发了文件 ${parsed.fileName || ""}，已保存到 ${path}`;
+			}
+			if (EXPANDED_TYPES.has(messageType)) {
+				if (messageType === "media" || messageType === "merge_forward") {
+					const busy = messageType === "media" ? "🎬 正在下载视频并识别语音..." : "📜 正在展开聊天记录...";
+					cardId = await replyCard(bot, messageId, busy, { title: "处理中", color: "wathet" });
+				}
+				const expanded = await describeMessage(bot, messageId, messageType, content, { transcribe: true });
+				text = text ? `${text}\n\n${expanded}` : expanded;
+				console.log(`[展开] ${messageType} → ${expanded.length} chars`);
+			}
+		} catch (e) {
+			console.error("[下载失败]", e);
+			if (!text) {
+				if (cardId) await updateCard(bot, cardId, "❌ 媒体下载失败，请重新发送", { color: "red" });
+				else await replyCard(bot, messageId, "❌ 媒体下载失败，请重新发送");
+				return;
 			}
-		}
-		if (parsed.fileKey && messageType === "file") {
-			const dotIdx = parsed.fileName?.lastIndexOf(".");
-			const ext = dotIdx != null && dotIdx > 0 ? parsed.fileName!.slice(dotIdx) : "";
-			const path = await downloadMedia(messageId, parsed.fileKey, "file", ext);
-			text = text
-				? `${text}\n\n[附件: ${path}]`
-				: `用户发了文件 ${parsed.fileName || ""}，已保存到 ${path}`;
-		}
-	} catch (e) {
-		console.error("[下载失败]", e);
-		if (!text) {
-			if (cardId) await updateCard(cardId, "❌ 媒体下载失败，请重新发送", { color: "red" });
-			else await replyCard(messageId, "❌ 媒体下载失败，请重新发送");
-			return;
 		}
 	}
 
@@ -1529,29 +3066,32 @@ async function handleInner(
 
 	// /apikey、/密钥、/换key → 更换 Cursor API Key
 	if (/^\/?(?:apikey|api\s*key|密钥|换key|更换密钥)\s*$/i.test(text.trim())) {
+		if (await denied("apikey.view")) return;
 		const keyPreview = config.CURSOR_API_KEY ? `\`...${config.CURSOR_API_KEY.slice(-8)}\`` : "**未设置**";
-		await replyCard(messageId, `当前 Key：${keyPreview}\n\n更换方式：\`/密钥 key_xxx...\` 或 \`/apikey key_xxx...\`\n\n[生成新 Key →](https://cursor.com/dashboard)`, { title: "API Key", color: "blue" });
+		await replyCard(bot, messageId, `当前 Key：${keyPreview}\n\n更换方式：\`/密钥 key_xxx...\` 或 \`/apikey key_xxx...\`\n\n[生成新 Key →](https://cursor.com/dashboard)`, { title: "API Key", color: "blue" });
 		return;
 	}
 	const apikeyMatch = text.match(/^\/?(?:api\s*key|密钥|换key|更换密钥)[\s:：=]*(.+)/i);
 	if (apikeyMatch) {
+		if (await denied("apikey.set")) return;
 		if (isGroup) {
-			await replyCard(messageId, "⚠️ **安全提醒：请勿在群聊中发送 API Key！**\n\n请在与机器人的 **私聊** 中发送 `/apikey` 指令。", { title: "安全提醒", color: "red" });
+			await replyCard(bot, messageId, "⚠️ **安全提醒：请勿在群聊中发送 API Key！**\n\n请在与机器人的 **私聊** 中发送 `/apikey` 指令。", { title: "安全提醒", color: "red" });
 			return;
 		}
 		const rawKey = apikeyMatch[1].trim().replace(/^["'`]+|["'`]+$/g, "");
 		if (!rawKey || rawKey.length < 20) {
-			await replyCard(messageId, "❌ Key 格式不对，太短了。请发送完整的 Cursor API Key。\n\n支持格式：\n- `/apikey key_xxxx...`\n- `/密钥 key_xxxx...`\n- `/换key key_xxxx...`", { title: "格式错误", color: "red" });
+			await replyCard(bot, messageId, "❌ Key 格式不对，太短了。请发送完整的 Cursor API Key。\n\n支持格式：\n- `/apikey key_xxxx...`\n- `/密钥 key_xxxx...`\n- `/换key key_xxxx...`", { title: "格式错误", color: "red" });
 			return;
 		}
 		try {
 			const envContent = readFileSync(ENV_PATH, "utf-8");
 			const updated = envContent.replace(/^CURSOR_API_KEY=.*$/m, `CURSOR_API_KEY=${rawKey}`);
 			writeFileSync(ENV_PATH, updated);
-			await replyCard(messageId, `**API Key 已更换**\n\n新 Key: \`...${rawKey.slice(-8)}\`\n\n已写入 .env 并自动生效。`, { title: "Key 已更新", color: "green" });
+			audit.append({ kind: "config", action: "apikey", ...auditCtx, detail: { to: `...${rawKey.slice(-4)}` } });
+			await replyCard(bot, messageId, `**API Key 已更换**\n\n新 Key: \`...${rawKey.slice(-8)}\`\n\n已写入 .env 并自动生效。`, { title: "Key 已更新", color: "green" });
 			console.log(`[指令] API Key 已通过飞书更换 (...${rawKey.slice(-8)})`);
 		} catch (err) {
-			await replyCard(messageId, `❌ 写入失败: ${err instanceof Error ? err.message : err}`, { color: "red" });
+			await replyCard(bot, messageId, `❌ 写入失败: ${err instanceof Error ? err.message : err}`, { color: "red" });
 		}
 		return;
 	}
@@ -1568,6 +3108,20 @@ async function handleInner(
 			`- ${c("/新对话", "/new")} — 重置当前会话`,
 			`- ${c("/终止", "/stop")} — 终止正在执行的任务`,
 			"",
+			"**任务队列**",
+			`- ${c("/队列", "/queue")} — 查看运行中与排队中的任务`,
+			"- `/队列 取消 编号` — 取消排队中的任务（运行中的会被终止）",
+			"- `/队列 置顶 编号` — 把排队任务移到最前",
+			"",
+			"**用量统计**",
+			`- ${c("/用量", "/usage")} — 今天的 Agent 调用汇总（按用户/项目/模型/来源）`,
+			"- `/用量 昨天/周/月` — 昨天 / 近 7 天 / 近 30 天",
+			"",
+			"**审计日志**",
+			`- ${c("/审计", "/audit")} — 最近 20 条记录（消息、指令、配置变更、Agent 执行、工具调用）`,
+			"- `/审计 类型 条数` — 按类型筛选（消息/指令/配置/任务/工具），也可跟 open_id、群 ID 或任务 ID",
+			"- `/审计 导出 天数` — 导出 JSONL 文件（默认 7 天，仅私聊）",
+			"",
 			"**会话管理**",
 			`- ${c("/会话", "/sessions")} — 查看最近会话列表`,
 			`- \`/会话 编号\` — 切换到指定会话`,
@@ -1597,38 +3151,37 @@ async function handleInner(
 			"**项目路由**",
 			`发送 \`项目名:消息\` 指定工作区，如 \`openclaw:帮我看看这个bug\``,
 			`可用项目：${Object.keys(projectsConfig.projects).map((k) => `\`${k}\``).join("、")}（默认：\`${projectsConfig.default_project}\`）`,
+			`- ${c("/项目", "/projects")} — 查看项目路由`,
+			"- `/项目 添加 名称 路径 描述` / `/项目 删除 名称`",
+			"- `/项目 默认 名称` / `/项目 描述 名称 描述`",
+			...(cfg.roles ? ["", `你的角色：**${ROLE_LABELS[role]}**（部分指令需管理员权限）`] : []),
 		].join("\n");
-		await replyCard(messageId, helpText, { title: "📖 使用帮助", color: "blue" });
+		await replyCard(bot, messageId, helpText, { title: "📖 使用帮助", color: "blue" });
 		return;
 	}
 
 	// /status → 服务状态一览
 	if (/^\/(status|状态)\s*$/i.test(text.trim())) {
-		const keyPreview = config.CURSOR_API_KEY ? `\`...${config.CURSOR_API_KEY.slice(-8)}\`` : "**未设置**";
-		const sttStatus = config.VOLC_STT_APP_ID ? "火山引擎豆包大模型" : (existsSync(WHISPER_MODEL) ? "本地 whisper" : "不可用");
-		const projects = Object.entries(projectsConfig.projects).map(([k, v]) => `  \`${k}\` → ${v.path}`).join("\n");
+		const st = serviceStatus();
+		const projects = st.projects.map((p) => `  \`${p.name}\` → ${p.path}`).join("\n");
 		const sessions = [...sessionsStore.entries()]
 			.filter(([, s]) => s.active)
-			.map(([ws, s]) => {
-				const name = Object.entries(projectsConfig.projects).find(([, v]) => v.path === ws)?.[0] || ws;
+			.map(([key, s]) => {
+				const name = Object.entries(projectsConfig.projects).find(([, v]) => v.path === s.workspace)?.[0] || s.workspace;
 				const entry = s.history.find((h) => h.id === s.active);
 				const info = entry ? ` · ${entry.summary.slice(0, 30)}` : "";
-				return `  \`${name}\` → ${s.active!.slice(0, 12)}...${info}`;
+				return `  \`${name}\`${describeSessionScope(key)} → ${s.active!.slice(0, 12)}...${info}`;
 			}).join("\n") || "  (无活跃会话)";
-		const memStatus = memory
-			? (() => {
-				const stats = memory.getStats();
-				return `全工作区索引（${stats.chunks} 块, ${stats.files} 文件, ${stats.cachedEmbeddings} 嵌入缓存）`;
-			})()
-			: "未启用";
 		const statusText = [
-			`**模型：** ${config.CURSOR_MODEL}`,
-			`**Key：** ${keyPreview}`,
-			`**STT：** ${sttStatus}`,
-			`**记忆：** ${memStatus}`,
-			`**调度：** ${(() => { const s = scheduler.getStats(); return s.total > 0 ? `${s.enabled}/${s.total} 任务${s.nextRunIn ? `（下次: ${s.nextRunIn}）` : ""}` : "无任务"; })()}`,
-			`**心跳：** ${heartbeat.getStatus().enabled ? `每 ${Math.round(heartbeat.getStatus().everyMs / 60000)} 分钟` : "未启用"}`,
-			`**活跃任务：** ${busySessions.size} 个运行中`,
+			`**模型：** ${st.model}`,
+			...(bots.size > 1 ? [`**机器人：** ${bot.label}（共 ${bots.size} 个）`] : []),
+			`**Key：** ${config.CURSOR_API_KEY ? `\`${st.apiKey}\`` : "**未设置**"}`,
+			`**STT：** ${st.stt}`,
+			`**记忆：** ${st.memory}`,
+			`**调度：** ${st.scheduler}`,
+			`**心跳：** ${st.heartbeat}`,
+			`**访问：** ${describeAccessPolicy(cfg)}`,
+			`**活跃任务：** ${st.tasks}`,
 			"",
 			"**项目路由：**",
 			projects,
@@ -1636,7 +3189,7 @@ async function handleInner(
 			"**活跃会话：**",
 			sessions,
 		].join("\n");
-		await replyCard(messageId, statusText, { title: "服务状态", color: "blue" });
+		await replyCard(bot, messageId, statusText, { title: "服务状态", color: "blue" });
 		return;
 	}
 
@@ -1645,9 +3198,11 @@ async function handleInner(
 	if (modelMatch) {
 		const input = modelMatch[2].trim();
 
+		if (await denied(input ? "model.switch" : "model.view")) return;
+
 		// 无参数 → 显示模型列表
 		if (!input) {
-			await replyCard(messageId, buildModelListCard(config.CURSOR_MODEL), { title: "选择模型", color: "blue" });
+			await replyCard(bot, messageId, buildModelListCard(config.CURSOR_MODEL), { title: "选择模型", color: "blue" }, buildModelButtons(config.CURSOR_MODEL, sessionCtx));
 			return;
 		}
 
@@ -1656,7 +3211,7 @@ async function handleInner(
 		if (exact) {
 			// 精确匹配或唯一模糊匹配 → 直接切换
 			if (exact.id === config.CURSOR_MODEL) {
-				await replyCard(messageId, `当前已是 **${exact.id}**（${exact.desc}），无需切换。`, { title: "当前模型", color: "blue" });
+				await replyCard(bot, messageId, `当前已是 **${exact.id}**（${exact.desc}），无需切换。`, { title: "当前模型", color: "blue" });
 				return;
 			}
 			const envContent = readFileSync(ENV_PATH, "utf-8");
@@ -1665,7 +3220,8 @@ async function handleInner(
 				: `${envContent.trimEnd()}\nCURSOR_MODEL=${exact.id}\n`;
 			writeFileSync(ENV_PATH, updated);
 			const prev = config.CURSOR_MODEL;
-			await replyCard(messageId, `${prev} → **${exact.id}**（${exact.desc}）\n\n已写入 .env，2 秒内自动生效。`, { title: "模型已切换", color: "green" });
+			audit.append({ kind: "config", action: "model", ...auditCtx, detail: { from: prev, to: exact.id } });
+			await replyCard(bot, messageId, `${prev} → **${exact.id}**（${exact.desc}）\n\n已写入 .env，2 秒内自动生效。`, { title: "模型已切换", color: "green" });
 			console.log(`[指令] 模型切换: ${prev} → ${exact.id}`);
 			return;
 		}
@@ -1673,13 +3229,13 @@ async function handleInner(
 		if (candidates.length > 1) {
 			// 多个候选 → 提示用户精确选择
 			const list = candidates.map((m) => `- \`${m.id}\`（${m.desc}）`).join("\n");
-			await replyCard(messageId, `「${input}」匹配到多个模型：\n\n${list}\n\n请输入更精确的名称或编号。`, { title: "请精确选择", color: "orange" });
+			await replyCard(bot, messageId, `「${input}」匹配到多个模型：\n\n${list}\n\n请输入更精确的名称或编号。`, { title: "请精确选择", color: "orange" });
 			return;
 		}
 
 		// 列表外的自定义模型名 → 确认后切换
 		if (input.length < 2 || /^\d+$/.test(input)) {
-			await replyCard(messageId, buildModelListCard(config.CURSOR_MODEL, `「${input}」无匹配，请从列表中选择`), { title: "未找到模型", color: "orange" });
+			await replyCard(bot, messageId, buildModelListCard(config.CURSOR_MODEL, `「${input}」无匹配，请从列表中选择`), { title: "未找到模型", color: "orange" }, buildModelButtons(config.CURSOR_MODEL, sessionCtx));
 			return;
 		}
 
@@ -1689,22 +3245,172 @@ async function handleInner(
 			: `${envContent.trimEnd()}\nCURSOR_MODEL=${input}\n`;
 		writeFileSync(ENV_PATH, updated);
 		const prev = config.CURSOR_MODEL;
-		await replyCard(messageId, `${prev} → **${input}**\n\n⚠️ 此模型不在常用列表中，若名称有误可能导致执行失败。\n发送 \`/模型\` 查看常用列表。`, { title: "模型已切换", color: "yellow" });
+		audit.append({ kind: "config", action: "model", ...auditCtx, detail: { from: prev, to: input, custom: true } });
+		await replyCard(bot, messageId, `${prev} → **${input}**\n\n⚠️ 此模型不在常用列表中，若名称有误可能导致执行失败。\n发送 \`/模型\` 查看常用列表。`, { title: "模型已切换", color: "yellow" });
 		console.log(`[指令] 模型切换(自定义): ${prev} → ${input}`);
 		return;
 	}
 
+	// /队列、/queue → 查看运行中/排队中的任务，取消或置顶
+	const queueMatch = text.match(/^\/(队列|queue)[\s:：]*(.*)/i);
+	if (queueMatch) {
+		const sub = queueMatch[2]!.trim();
+		const { running, waiting } = taskQueue.list();
+		const now = Date.now();
+
+		if (!sub) {
+			if (await denied("queue.view")) return;
+			if (running.length === 0 && waiting.length === 0) {
+				await replyCard(bot, messageId, "当前没有运行中或排队中的任务。", { title: "📋 任务队列", color: "blue" });
+				return;
+			}
+			const cap = config.AGENT_MAX_CONCURRENT;
+			const priorityTag = (p: TaskPriority) => (p === "high" ? " · ⬆ 优先" : p === "low" ? " · 后台" : "");
+			const lines = [`**运行中（${running.length}${cap > 0 ? `/${cap}` : ""}）**`];
+			for (const t of running) {
+				lines.push(`- ▶️ ${t.label} · 已运行 ${formatElapsed(Math.round((now - t.startedAt!) / 1000))} · \`${t.id}\``);
+			}
+			if (running.length === 0) lines.push("- （无）");
+			lines.push("", `**排队中（${waiting.length}）**`);
+			for (const t of waiting) {
+				const eta = t.etaMs > 0 ? ` · 预计 ${formatElapsed(Math.max(Math.round(t.etaMs / 1000), 1))}后开始` : "";
+				lines.push(`- **${t.position}.** ${t.label}${priorityTag(t.priority)} · 已等 ${formatElapsed(Math.round((now - t.enqueuedAt) / 1000))}${eta} · \`${t.id}\``);
+			}
+			if (waiting.length === 0) lines.push("- （无）");
+			lines.push("", "---", "取消：`/队列 取消 编号`　　置顶：`/队列 置顶 编号`");
+			const buttons = waiting.slice(0, MAX_LIST_BUTTONS).flatMap((t) => [
+				commandButton(`✖ 取消 #${t.position}`, `/队列 取消 ${t.id}`, sessionCtx, "danger"),
+				...(t.position > 1 ? [commandButton(`⬆ 置顶 #${t.position}`, `/队列 置顶 ${t.id}`, sessionCtx)] : []),
+			]);
+			await replyCard(bot, messageId, lines.join("\n"), { title: "📋 任务队列", color: "blue" }, buttons);
+			return;
+		}
+
+		const actionMatch = sub.match(/^(取消|cancel|置顶|top)\s+(\S+)$/i);
+		if (!actionMatch) {
+			await replyCard(bot, messageId, "用法：\n- `/队列` — 查看任务队列\n- `/队列 取消 编号` — 取消排队任务（运行中的会被终止）\n- `/队列 置顶 编号` — 移到队首\n\n编号为排队位置，也可以用任务 ID。", { title: "用法", color: "orange" });
+			return;
+		}
+		// 编号优先按排队位置解析，其次按任务 ID
+		const ref = actionMatch[2]!;
+		const pos = /^\d+$/.test(ref) ? Number(ref) : 0;
+		const target = pos >= 1 && pos <= waiting.length ? waiting[pos - 1] : taskQueue.get(ref);
+		if (!target) {
+			await replyCard(bot, messageId, `未找到任务 \`${ref}\`，可能已经结束。\n\n发送 \`/队列\` 查看当前队列。`, { title: "未找到", color: "orange" });
+			return;
+		}
+		// 自己发起的任务成员即可操作，他人或后台任务需管理员
+		if (await denied(target.owner === sessionCtx.senderOpenId ? "queue.view" : "queue.manage")) return;
+
+		if (/^(取消|cancel)$/i.test(actionMatch[1]!)) {
+			if (taskQueue.isRunning(target.id)) {
+				const agent = activeAgents.get(target.lockKey);
+				agent?.kill();
+				console.log(`[队列] 终止运行中任务 ${target.id} (${target.label})`);
+				await replyCard(bot, messageId, `已终止运行中的任务：**${target.label}**`, { title: "已终止", color: "orange" });
+			} else {
+				taskQueue.cancel(target.id);
+				await replyCard(bot, messageId, `已取消：**${target.label}**`, { title: "已取消", color: "grey" });
+			}
+			return;
+		}
+		if (taskQueue.isRunning(target.id)) {
+			await replyCard(bot, messageId, `**${target.label}** 已在运行中。`, { title: "无需置顶", color: "blue" });
+			return;
+		}
+		taskQueue.moveToFront(target.id);
+		await replyCard(bot, messageId, `已置顶：**${target.label}**`, { title: "⬆ 已置顶", color: "green" });
+		return;
+	}
+
+	// /用量、/usage → Agent 调用统计（今天/昨天/近 7 天/近 30 天）
+	const usageMatch = text.match(/^\/(用量|usage)[\s:：]*(.*)/i);
+	if (usageMatch) {
+		if (await denied("usage")) return;
+		const range = parseUsageRange(usageMatch[2]!.trim());
+		if (!range) {
+			await replyCard(bot, messageId, "用法：\n- `/用量` — 今天\n- `/用量 昨天`\n- `/用量 周` — 近 7 天（含逐日明细）\n- `/用量 月` — 近 30 天", { title: "用法", color: "orange" });
+			return;
+		}
+		const report = await buildUsageReport(bot, range);
+		const buttons = [
+			commandButton("今天", "/用量 今天", sessionCtx),
+			commandButton("近 7 天", "/用量 周", sessionCtx),
+			commandButton("近 30 天", "/用量 月", sessionCtx),
+		];
+		await replyCard(bot, messageId, report, { title: `📊 用量 · ${range.label}`, color: "blue" }, buttons);
+		return;
+	}
+
+	// /审计、/audit → 查询最近的审计记录，或导出为 JSONL 文件
+	const auditMatch = text.match(/^\/(审计|audit)[\s:：]*(.*)/i);
+	if (auditMatch) {
+		const args = auditMatch[2]!.trim().split(/\s+/).filter(Boolean);
+		const exportMatch = args[0]?.match(/^(导出|export)$/i);
+		if (exportMatch) {
+			if (await denied("audit.export")) return;
+			// 导出文件含所有会话的提问、工具参数与发送者 ID，只在私聊中发送
+			if (isGroup) {
+				await replyCard(bot, messageId, "⚠️ 审计日志包含所有会话的记录，**不能在群聊中导出**。\n\n请在与机器人的 **私聊** 中发送 `/审计 导出`。", { title: "安全提醒", color: "red" });
+				return;
+			}
+			const days = Math.min(Math.max(Number(args[1]) || AUDIT_EXPORT_DAYS, 1), AUDIT_EXPORT_MAX_DAYS);
+			const data = audit.export(Date.now() - days * DAY_MS);
+			if (!data) {
+				await replyCard(bot, messageId, `近 ${days} 天没有审计记录。`, { title: "🛡 审计导出", color: "grey" });
+				return;
+			}
+			const fileName = `audit-${new Date().toISOString().slice(0, 10)}-${days}d.jsonl`;
+			try {
+				await sendMediaFeishu({
+					cfg: buildChannelConfig(),
+					to: chatId,
+					mediaBuffer: Buffer.from(data),
+					fileName,
+					replyToMessageId: messageId,
+					replyInThread: threadReplyMessages.has(messageId),
+					accountId: bot.id,
+				});
+				audit.append({ kind: "command", action: "audit.export", ...auditCtx, detail: { days, bytes: data.length } });
+			} catch (err) {
+				await replyCard(bot, messageId, `❌ 导出失败: ${err instanceof Error ? err.message : err}`, { title: "🛡 审计导出", color: "red" });
+			}
+			return;
+		}
+
+		if (await denied("audit.view")) return;
+		const query: AuditQuery = { since: Date.now() - AUDIT_QUERY_DAYS * DAY_MS, limit: AUDIT_QUERY_LIMIT };
+		for (const arg of args) {
+			const kind = AUDIT_KIND_ALIASES[arg.toLowerCase()];
+			if (kind) query.kinds = [...(query.kinds ?? []), kind];
+			else if (/^\d+$/.test(arg)) query.limit = Math.min(Number(arg), AUDIT_QUERY_MAX);
+			else if (arg.startsWith("ou_")) query.senderId = arg;
+			else if (arg.startsWith("oc_")) query.chatId = arg;
+			else query.taskId = arg;
+		}
+		const entries = audit.query(query);
+		if (entries.length === 0) {
+			await replyCard(bot, messageId, `近 ${AUDIT_QUERY_DAYS} 天没有匹配的审计记录。`, { title: "🛡 审计日志", color: "grey" });
+			return;
+		}
+		const lines = await Promise.all(entries.map((e) => formatAuditEntry(bot, e)));
+		lines.push("", "---", "筛选：`/审计 消息/指令/配置/任务/工具 条数`　　导出：`/审计 导出 天数`");
+		await replyCard(bot, messageId, lines.join("\n"), { title: `🛡 审计日志（最近 ${entries.length} 条）`, color: "blue" });
+		return;
+	}
+
 	// /stop、/终止、/停止 → 终止当前会话运行的 agent
 	if (/^\/(stop|终止|停止)\s*$/i.test(text.trim())) {
-		const { workspace: ws } = route(text);
-		const lk = getLockKey(ws);
+		if (await denied("stop")) return;
+		const { workspace: ws } = route(text, fallbackWorkspace);
+		const lk = getLockKey(resolveSessionKey(ws, sessionCtx));
 		const agent = activeAgents.get(lk);
 		if (agent) {
 			agent.kill();
 			console.log(`[指令] 终止 agent pid=${agent.pid} session=${lk}`);
-			await replyCard(messageId, "已终止当前任务。\n\n发送新消息将继续在当前会话中对话。", { title: "已终止", color: "orange" });
+			await replyCard(bot, messageId, "已终止当前任务。\n\n发送新消息将继续在当前会话中对话。", { title: "已终止", color: "orange" });
 		} else {
-			await replyCard(messageId, "当前没有正在运行的任务。", { title: "无任务", color: "grey" });
+			await replyCard(bot, messageId, "当前没有正在运行的任务。", { title: "无任务", color: "grey" });
 		}
 		return;
 	}
@@ -1712,8 +3418,9 @@ async function handleInner(
 	// /记忆、/memory → 记忆系统操作
 	const memoryMatch = text.match(/^\/(记忆|memory|搜索记忆|recall)[\s:：=]*(.*)/i);
 	if (memoryMatch) {
+		if (await denied("memory")) return;
 		if (!memory) {
-			await replyCard(messageId, "记忆系统未初始化（缺少向量嵌入 API Key）。\n\n请在 `.env` 中设置 `VOLC_EMBEDDING_API_KEY`。", { title: "记忆不可用", color: "orange" });
+			await replyCard(bot, messageId, "记忆系统未初始化（缺少向量嵌入 API Key）。\n\n请在 `.env` 中设置 `VOLC_EMBEDDING_API_KEY`。", { title: "记忆不可用", color: "orange" });
 			return;
 		}
 		const query = memoryMatch[2].trim();
@@ -1737,21 +3444,24 @@ async function handleInner(
 				"",
 				summary ? `**最近记忆摘要：**\n\n${summary.slice(0, 1500)}` : "（暂无记忆文件）",
 			].join("\n");
-			await replyCard(messageId, statusText, { title: "🧠 记忆系统", color: "purple" });
+			await replyCard(bot, messageId, statusText, { title: "🧠 记忆系统", color: "purple" });
 			return;
 		}
+		const endTimer = metric.memorySearch.startTimer();
 		try {
 			const results = await memory.search(query, 5);
+			endTimer({ result: results.length > 0 ? "hit" : "empty" });
 			if (results.length === 0) {
-				await replyCard(messageId, `未找到与「${query}」相关的记忆。\n\n索引范围：工作区全部文本文件（发 \`/整理记忆\` 可刷新）`, { title: "无匹配", color: "grey" });
+				await replyCard(bot, messageId, `未找到与「${query}」相关的记忆。\n\n索引范围：工作区全部文本文件（发 \`/整理记忆\` 可刷新）`, { title: "无匹配", color: "grey" });
 				return;
 			}
 			const lines = results.map((r, i) =>
 				`**${i + 1}.** \`${r.path}#L${r.startLine}\`（相关度 ${(r.score * 100).toFixed(0)}%）\n${r.text.slice(0, 300)}`,
 			);
-			await replyCard(messageId, lines.join("\n\n---\n\n"), { title: `🔍 搜索「${query}」`, color: "purple" });
+			await replyCard(bot, messageId, lines.join("\n\n---\n\n"), { title: `🔍 搜索「${query}」`, color: "purple" });
 		} catch (e) {
-			await replyCard(messageId, `搜索失败: ${e instanceof Error ? e.message : e}`, { color: "red" });
+			endTimer({ result: "error" });
+			await replyCard(bot, messageId, `搜索失败: ${e instanceof Error ? e.message : e}`, { color: "red" });
 		}
 		return;
 	}
@@ -1759,23 +3469,25 @@ async function handleInner(
 	// /记录 → 快速写入今日日记
 	const logMatch = text.match(/^\/(记录|log|note)[\s:：=]+(.+)/is);
 	if (logMatch) {
+		if (await denied("log")) return;
 		if (!memory) {
-			await replyCard(messageId, "记忆系统未初始化。", { title: "不可用", color: "orange" });
+			await replyCard(bot, messageId, "记忆系统未初始化。", { title: "不可用", color: "orange" });
 			return;
 		}
 		const content = logMatch[2].trim();
 		const path = memory.appendDailyLog(content);
-		await replyCard(messageId, `已记录到今日日记。\n\n\`${path}\``, { title: "📝 已记录", color: "green" });
+		await replyCard(bot, messageId, `已记录到今日日记。\n\n\`${path}\``, { title: "📝 已记录", color: "green" });
 		return;
 	}
 
 	// /整理记忆 → 重建全工作区记忆索引
 	if (/^\/(整理记忆|reindex|索引)\s*$/i.test(text.trim())) {
+		if (await denied("reindex")) return;
 		if (!memory) {
-			await replyCard(messageId, "记忆系统未初始化。", { title: "不可用", color: "orange" });
+			await replyCard(bot, messageId, "记忆系统未初始化。", { title: "不可用", color: "orange" });
 			return;
 		}
-		const reindexCardId = await replyCard(messageId, "⏳ 正在扫描并索引工作区全部文本文件...", { title: "全工作区索引中", color: "wathet" });
+		const reindexCardId = await replyCard(bot, messageId, "⏳ 正在扫描并索引工作区全部文本文件...", { title: "全工作区索引中", color: "wathet" });
 		try {
 			const count = await memory.index();
 			const stats = memory.getStats();
@@ -1788,12 +3500,12 @@ async function handleInner(
 				...stats.filePaths.slice(0, 25).map((p) => `- \`${p}\``),
 				...(stats.filePaths.length > 25 ? [`- …及其他 ${stats.filePaths.length - 25} 个文件`] : []),
 			].join("\n");
-			if (reindexCardId) await updateCard(reindexCardId, msg, { title: "✅ 全工作区索引完成", color: "green" });
-			else await replyCard(messageId, msg, { title: "✅ 全工作区索引完成", color: "green" });
+			if (reindexCardId) await updateCard(bot, reindexCardId, msg, { title: "✅ 全工作区索引完成", color: "green" });
+			else await replyCard(bot, messageId, msg, { title: "✅ 全工作区索引完成", color: "green" });
 		} catch (e) {
 			const msg = `索引失败: ${e instanceof Error ? e.message : e}`;
-			if (reindexCardId) await updateCard(reindexCardId, msg, { title: "索引失败", color: "red" });
-			else await replyCard(messageId, msg, { color: "red" });
+			if (reindexCardId) await updateCard(bot, reindexCardId, msg, { title: "索引失败", color: "red" });
+			else await replyCard(bot, messageId, msg, { color: "red" });
 		}
 		return;
 	}
@@ -1804,9 +3516,10 @@ async function handleInner(
 		const subCmd = taskMatch[2].trim().toLowerCase();
 
 		if (!subCmd || subCmd === "list" || subCmd === "列表") {
+			if (await denied("task.view")) return;
 			const jobs = await scheduler.list();
 			if (jobs.length === 0) {
-				await replyCard(messageId, "暂无定时任务。\n\n在对话中告诉 AI「每天早上9点检查邮件」即可自动创建，\n或手动编辑工作区的 `cron-jobs.json`。", { title: "📋 定时任务", color: "blue" });
+				await replyCard(bot, messageId, "暂无定时任务。\n\n在对话中告诉 AI「每天早上9点检查邮件」即可自动创建，\n或手动编辑工作区的 `cron-jobs.json`。", { title: "📋 定时任务", color: "blue" });
 				return;
 			}
 			const lines = jobs.map((j, i) => {
@@ -1819,18 +3532,30 @@ async function handleInner(
 			});
 			const stats = scheduler.getStats();
 			lines.push("", `共 ${stats.total} 个任务（${stats.enabled} 启用）${stats.nextRunIn ? `，下次执行: ${stats.nextRunIn}` : ""}`);
-			await replyCard(messageId, lines.join("\n"), { title: "📋 定时任务", color: "blue" });
+			const buttons = jobs.slice(0, MAX_LIST_BUTTONS).flatMap((j, i) => {
+				const id = j.id.slice(0, 8);
+				return [
+					j.enabled
+						? commandButton(`⏸ 暂停 #${i + 1}`, `/任务 暂停 ${id}`, sessionCtx)
+						: commandButton(`▶️ 恢复 #${i + 1}`, `/任务 恢复 ${id}`, sessionCtx),
+					commandButton(`⚡ 执行 #${i + 1}`, `/任务 执行 ${id}`, sessionCtx, "primary"),
+				];
+			});
+			await replyCard(bot, messageId, lines.join("\n"), { title: "📋 定时任务", color: "blue" }, buttons);
 			return;
 		}
 
+		if (await denied("task.manage")) return;
+
 		// /任务 暂停 ID
 		const pauseMatch = subCmd.match(/^(暂停|pause|disable)\s+(\S+)/i);
 		if (pauseMatch) {
 			const idPrefix = pauseMatch[2];
 			const job = (await scheduler.list(true)).find((j) => j.id.startsWith(idPrefix));
-			if (!job) { await replyCard(messageId, `未找到 ID 为 \`${idPrefix}\` 的任务`, { title: "未找到", color: "orange" }); return; }
+			if (!job) { await replyCard(bot, messageId, `未找到 ID 为 \`${idPrefix}\` 的任务`, { title: "未找到", color: "orange" }); return; }
 			await scheduler.update(job.id, { enabled: false });
-			await replyCard(messageId, `已暂停: **${job.name}**`, { title: "⏸ 已暂停", color: "orange" });
+			audit.append({ kind: "config", action: "cron", ...auditCtx, detail: { job: job.id, name: job.name, enabled: false } });
+			await replyCard(bot, messageId, `已暂停: **${job.name}**`, { title: "⏸ 已暂停", color: "orange" });
 			return;
 		}
 
@@ -1839,9 +3564,10 @@ async function handleInner(
 		if (resumeMatch) {
 			const idPrefix = resumeMatch[2];
 			const job = (await scheduler.list(true)).find((j) => j.id.startsWith(idPrefix));
-			if (!job) { await replyCard(messageId, `未找到 ID 为 \`${idPrefix}\` 的任务`, { title: "未找到", color: "orange" }); return; }
+			if (!job) { await replyCard(bot, messageId, `未找到 ID 为 \`${idPrefix}\` 的任务`, { title: "未找到", color: "orange" }); return; }
 			await scheduler.update(job.id, { enabled: true });
-			await replyCard(messageId, `已恢复: **${job.name}**`, { title: "✅ 已恢复", color: "green" });
+			audit.append({ kind: "config", action: "cron", ...auditCtx, detail: { job: job.id, name: job.name, enabled: true } });
+			await replyCard(bot, messageId, `已恢复: **${job.name}**`, { title: "✅ 已恢复", color: "green" });
 			return;
 		}
 
@@ -1850,9 +3576,10 @@ async function handleInner(
 		if (delMatch) {
 			const idPrefix = delMatch[2];
 			const job = (await scheduler.list(true)).find((j) => j.id.startsWith(idPrefix));
-			if (!job) { await replyCard(messageId, `未找到 ID 为 \`${idPrefix}\` 的任务`, { title: "未找到", color: "orange" }); return; }
+			if (!job) { await replyCard(bot, messageId, `未找到 ID 为 \`${idPrefix}\` 的任务`, { title: "未找到", color: "orange" }); return; }
 			await scheduler.remove(job.id);
-			await replyCard(messageId, `已删除: **${job.name}**`, { title: "🗑 已删除", color: "grey" });
+			audit.append({ kind: "config", action: "cron", ...auditCtx, detail: { job: job.id, name: job.name, removed: true } });
+			await replyCard(bot, messageId, `已删除: **${job.name}**`, { title: "🗑 已删除", color: "grey" });
 			return;
 		}
 
@@ -1861,17 +3588,17 @@ async function handleInner(
 		if (runMatch) {
 			const idPrefix = runMatch[2];
 			const job = (await scheduler.list(true)).find((j) => j.id.startsWith(idPrefix));
-			if (!job) { await replyCard(messageId, `未找到 ID 为 \`${idPrefix}\` 的任务`, { title: "未找到", color: "orange" }); return; }
-			await replyCard(messageId, `正在手动执行: **${job.name}**...`, { title: "▶ 执行中", color: "wathet" });
+			if (!job) { await replyCard(bot, messageId, `未找到 ID 为 \`${idPrefix}\` 的任务`, { title: "未找到", color: "orange" }); return; }
+			await replyCard(bot, messageId, `正在手动执行: **${job.name}**...`, { title: "▶ 执行中", color: "wathet" });
 			const result = await scheduler.run(job.id);
-			await replyCard(messageId, result.status === "ok" ? `执行成功: **${job.name}**` : `执行失败: ${result.error}`, {
+			await replyCard(bot, messageId, result.status === "ok" ? `执行成功: **${job.name}**` : `执行失败: ${result.error}`, {
 				title: result.status === "ok" ? "✅ 完成" : "❌ 失败",
 				color: result.status === "ok" ? "green" : "red",
 			});
 			return;
 		}
 
-		await replyCard(messageId, "未知子命令。\n\n用法：\n- `/任务` — 查看所有任务\n- `/任务 暂停 ID` — 暂停任务\n- `/任务 恢复 ID` — 恢复任务\n- `/任务 删除 ID` — 删除任务\n- `/任务 执行 ID` — 手动执行", { title: "用法", color: "orange" });
+		await replyCard(bot, messageId, "未知子命令。\n\n用法：\n- `/任务` — 查看所有任务\n- `/任务 暂停 ID` — 暂停任务\n- `/任务 恢复 ID` — 恢复任务\n- `/任务 删除 ID` — 删除任务\n- `/任务 执行 ID` — 手动执行", { title: "用法", color: "orange" });
 		return;
 	}
 
@@ -1881,6 +3608,7 @@ async function handleInner(
 		const subCmd = hbMatch[2].trim().toLowerCase();
 
 		if (!subCmd || subCmd === "status" || subCmd === "状态") {
+			if (await denied("heartbeat.view")) return;
 			const s = heartbeat.getStatus();
 			const statusText = [
 				`**状态：** ${s.enabled ? "✅ 已启用" : "⏸ 已关闭"}`,
@@ -1897,32 +3625,36 @@ async function handleInner(
 				"",
 				"编辑工作区的 `.cursor/HEARTBEAT.md` 可自定义检查清单。",
 			].filter(Boolean).join("\n");
-			await replyCard(messageId, statusText, { title: "💓 心跳系统", color: "purple" });
+			await replyCard(bot, messageId, statusText, { title: "💓 心跳系统", color: "purple" });
 			return;
 		}
 
+		if (await denied("heartbeat.manage")) return;
+
 		if (/^(开启|enable|on|start|启动)$/i.test(subCmd)) {
 			heartbeat.updateConfig({ enabled: true });
-			await replyCard(messageId, `心跳已开启，每 ${Math.round(heartbeat.getStatus().everyMs / 60000)} 分钟检查一次。\n\n编辑 \`.cursor/HEARTBEAT.md\` 自定义检查清单。`, { title: "💓 已开启", color: "green" });
+			audit.append({ kind: "config", action: "heartbeat", ...auditCtx, detail: { enabled: true } });
+			await replyCard(bot, messageId, `心跳已开启，每 ${Math.round(heartbeat.getStatus().everyMs / 60000)} 分钟检查一次。\n\n编辑 \`.cursor/HEARTBEAT.md\` 自定义检查清单。`, { title: "💓 已开启", color: "green" });
 			return;
 		}
 
 		if (/^(关闭|disable|off|stop|停止)$/i.test(subCmd)) {
 			heartbeat.updateConfig({ enabled: false });
-			await replyCard(messageId, "心跳已关闭。", { title: "💓 已关闭", color: "grey" });
+			audit.append({ kind: "config", action: "heartbeat", ...auditCtx, detail: { enabled: false } });
+			await replyCard(bot, messageId, "心跳已关闭。", { title: "💓 已关闭", color: "grey" });
 			return;
 		}
 
 		if (/^(执行|run|check|检查)$/i.test(subCmd)) {
-			await replyCard(messageId, "💓 正在执行心跳检查...", { title: "执行中", color: "wathet" });
+			await replyCard(bot, messageId, "💓 正在执行心跳检查...", { title: "执行中", color: "wathet" });
 			const result = await heartbeat.runOnce();
 			if (result.status === "ran") {
-				await replyCard(messageId, result.hasContent ? "心跳检查完成，发现需要关注的事项（已发送）" : "心跳检查完成，一切正常 ✅", {
+				await replyCard(bot, messageId, result.hasContent ? "心跳检查完成，发现需要关注的事项（已发送）" : "心跳检查完成，一切正常 ✅", {
 					title: "💓 检查完成",
 					color: "green",
 				});
 			} else {
-				await replyCard(messageId, `跳过: ${result.reason}`, { title: "💓 跳过", color: "grey" });
+				await replyCard(bot, messageId, `跳过: ${result.reason}`, { title: "💓 跳过", color: "grey" });
 			}
 			return;
 		}
@@ -1931,44 +3663,173 @@ async function handleInner(
 		if (intervalMatch) {
 			const mins = Number.parseInt(intervalMatch[2], 10);
 			if (mins < 1 || mins > 1440) {
-				await replyCard(messageId, "间隔范围: 1-1440 分钟", { title: "无效", color: "orange" });
+				await replyCard(bot, messageId, "间隔范围: 1-1440 分钟", { title: "无效", color: "orange" });
 				return;
 			}
 			heartbeat.updateConfig({ everyMs: mins * 60_000 });
-			await replyCard(messageId, `心跳间隔已设为 **${mins} 分钟**`, { title: "💓 已更新", color: "green" });
+			audit.append({ kind: "config", action: "heartbeat", ...auditCtx, detail: { everyMinutes: mins } });
+			await replyCard(bot, messageId, `心跳间隔已设为 **${mins} 分钟**`, { title: "💓 已更新", color: "green" });
+			return;
+		}
+
+		await replyCard(bot, messageId, "未知子命令。发送 `/心跳` 查看用法。", { title: "用法", color: "orange" });
+		return;
+	}
+
+	// /项目 → 查看 / 管理项目路由（写回 projects.json）
+	const projectMatch = text.match(/^\/(项目|projects?)[\s:：]*(.*)/is);
+	if (projectMatch) {
+		const [subCmd = "", rawName = "", ...rest] = (projectMatch[2] ?? "").trim().split(/\s+/);
+		const name = rawName.toLowerCase();
+		const usage = [
+			"**用法：**",
+			"- `/项目` — 查看项目路由",
+			"- `/项目 添加 名称 路径 描述` — 登记工作区（目录须已存在，新工作区会从模板初始化）",
+			"- `/项目 删除 名称` — 移除项目（不删除目录）",
+			"- `/项目 默认 名称` — 设为默认项目",
+			"- `/项目 描述 名称 描述` — 修改描述",
+		].join("\n");
+
+		if (!subCmd || /^(列表|list|ls)$/i.test(subCmd)) {
+			if (await denied("project.view")) return;
+			const body = `${formatRoutingTable()}\n\n发送 \`项目名:消息\` 指定工作区。\n\n${usage}`;
+			await replyCard(bot, messageId, body, { title: "📁 项目路由", color: "blue" });
+			return;
+		}
+
+		if (await denied("project.manage")) return;
+		const fail = (msg: string) => replyCard(bot, messageId, msg, { title: "未修改", color: "orange" });
+		// 写入成功后回复变更说明 + 最新路由表
+		const apply = async (mutate: (cfg: ProjectsConfig) => void, done: string, detail: Record<string, unknown>) => {
+			try {
+				updateProjectsConfig(mutate);
+			} catch (e) {
+				await fail(`写入 projects.json 失败：\n\n\`\`\`\n${e instanceof Error ? e.message : e}\n\`\`\``);
+				return;
+			}
+			console.log(`[项目] ${sessionCtx.senderOpenId} ${JSON.stringify(detail)}`);
+			audit.append({ kind: "config", action: "project", ...auditCtx, detail });
+			await replyCard(bot, messageId, `${done}\n\n**项目路由：**\n${formatRoutingTable()}`, { title: "📁 项目已更新", color: "green" });
+		};
+		const isAdd = /^(添加|add|new)$/i.test(subCmd);
+		if (!name || (!isAdd && !projectsConfig.projects[name])) {
+			await fail(name ? `项目 \`${name}\` 不存在。\n\n${usage}` : usage);
+			return;
+		}
+
+		if (isAdd) {
+			const rawPath = rest[0];
+			if (!rawPath) {
+				await fail(usage);
+				return;
+			}
+			if (!PROJECT_NAME_RE.test(name)) {
+				await fail("项目名不能包含空白、冒号或斜杠。");
+				return;
+			}
+			if (projectsConfig.projects[name]) {
+				await fail(`项目 \`${name}\` 已存在（→ \`${projectsConfig.projects[name].path}\`）。\n\n如需更换路径，请先 \`/项目 删除 ${name}\`。`);
+				return;
+			}
+			if (!rawPath.startsWith("~/") && !isAbsolute(rawPath)) {
+				await fail(`路径须为绝对路径（或以 \`~/\` 开头），实际为 \`${rawPath}\``);
+				return;
+			}
+			const path = resolve(rawPath.startsWith("~/") ? resolve(HOME!, rawPath.slice(2)) : rawPath);
+			if (!existsSync(path) || !statSync(path).isDirectory()) {
+				await fail(`目录不存在：\`${path}\`\n\n请先在本机创建该目录。`);
+				return;
+			}
+			const taken = projectNameOf(path);
+			if (taken) {
+				await fail(`该目录已登记为项目 \`${taken}\`。`);
+				return;
+			}
+			let seeded: boolean;
+			try {
+				seeded = ensureWorkspace(path);
+			} catch (e) {
+				await fail(`初始化工作区失败：${e instanceof Error ? e.message : e}`);
+				return;
+			}
+			const description = rest.slice(1).join(" ");
+			await apply(
+				(cfg) => { cfg.projects[name] = { path, description }; },
+				`已添加 \`${name}\` → \`${path}\`${seeded ? "（已从模板初始化工作区）" : ""}\n\n发送 \`${name}:消息\` 即可在该工作区对话。`,
+				{ add: name, path },
+			);
+			return;
+		}
+
+		if (/^(删除|remove|rm|del)$/i.test(subCmd)) {
+			if (name === projectsConfig.default_project) {
+				await fail(`\`${name}\` 是默认项目，请先用 \`/项目 默认 其他项目\` 切换。`);
+				return;
+			}
+			const boundBots = [...bots.values()].filter((b) => accountConfig(b.id).defaultProject?.toLowerCase() === name).map((b) => b.label);
+			const note = boundBots.length > 0 ? `\n\n⚠️ 机器人 ${boundBots.join("、")} 在 feishu.json 中以它为默认项目，之后将改用 \`${projectsConfig.default_project}\`。` : "";
+			const path = projectsConfig.projects[name]!.path;
+			await apply(
+				(cfg) => { delete cfg.projects[name]; },
+				`已移除 \`${name}\`（目录 \`${path}\` 与其中的会话记录保留）。${note}`,
+				{ remove: name, path },
+			);
+			return;
+		}
+
+		if (/^(默认|default)$/i.test(subCmd)) {
+			const prev = projectsConfig.default_project;
+			await apply(
+				(cfg) => { cfg.default_project = name; },
+				`默认项目：\`${prev}\` → \`${name}\`，未写「项目名:」前缀的消息将进入该工作区。\n\n定时任务、心跳与记忆索引仍使用启动时的默认工作区，重启服务后切换。`,
+				{ from: prev, default: name },
+			);
+			return;
+		}
+
+		if (/^(描述|describe|desc)$/i.test(subCmd)) {
+			const description = rest.join(" ");
+			await apply(
+				(cfg) => { cfg.projects[name]!.description = description; },
+				description ? `已更新 \`${name}\` 的描述。` : `已清空 \`${name}\` 的描述。`,
+				{ project: name, description },
+			);
 			return;
 		}
 
-		await replyCard(messageId, "未知子命令。发送 `/心跳` 查看用法。", { title: "用法", color: "orange" });
+		await fail(`未知子命令。\n\n${usage}`);
 		return;
 	}
 
 	// /new、/新对话、/新会话 → 归档当前会话，开启新对话
-	const { workspace, prompt, label } = route(text);
+	const { workspace, prompt, label } = route(text, fallbackWorkspace);
+	const sessionKey = resolveSessionKey(workspace, sessionCtx);
 	if (/^\/(new|新对话|新会话)\s*$/i.test(prompt.trim())) {
-		archiveAndResetSession(workspace);
-		const historyCount = getSessionHistory(workspace).length;
+		if (await denied("new")) return;
+		archiveAndResetSession(sessionKey);
+		const historyCount = getSessionHistory(sessionKey).length;
 		const hint = historyCount > 0 ? `\n\n历史会话已保留（共 ${historyCount} 个），发送 \`/会话\` 可查看和切换。` : "";
 		const msg = `**[${label}]** 新会话已开始，下一条消息将创建全新对话。${hint}`;
-		if (cardId) await updateCard(cardId, msg, { title: "新会话", color: "blue" });
-		else await replyCard(messageId, msg, { title: "新会话", color: "blue" });
+		if (cardId) await updateCard(bot, cardId, msg, { title: "新会话", color: "blue" });
+		else await replyCard(bot, messageId, msg, { title: "新会话", color: "blue" });
 		return;
 	}
 
 	// /会话、/sessions → 列出历史会话 / 切换会话
 	const sessionCmdMatch = prompt.match(/^\/(会话|sessions?)[\s:：]*(.*)/i);
 	if (sessionCmdMatch) {
+		if (await denied("sessions")) return;
 		const subArg = sessionCmdMatch[2].trim();
-		const history = getSessionHistory(workspace, 10);
-		const activeId = getActiveSessionId(workspace);
+		const history = getSessionHistory(sessionKey, 10);
+		const activeId = getActiveSessionId(sessionKey);
 
 		if (!subArg) {
 			if (history.length === 0) {
-				await replyCard(messageId, "暂无历史会话。\n\n开始对话后会自动记录，发送 `/新对话` 可归档当前会话。", { title: "💬 会话列表", color: "blue" });
+				await replyCard(bot, messageId, "暂无历史会话。\n\n开始对话后会自动记录，发送 `/新对话` 可归档当前会话。", { title: "💬 会话列表", color: "blue" });
 				return;
 			}
 			const lines: string[] = [];
-			lines.push(`**工作区：** \`${label}\`\n`);
+			lines.push(`**工作区：** \`${label}\`${describeSessionScope(sessionKey)}\n`);
 			for (let i = 0; i < history.length; i++) {
 				const h = history[i];
 				const isCurrent = h.id === activeId;
@@ -1978,7 +3839,13 @@ async function handleInner(
 				lines.push(`${icon} **${i + 1}.** ${h.summary}${tag}\n   ${time} · \`${h.id.slice(0, 8)}\``);
 			}
 			lines.push("", "---", "切换：`/会话 编号`　　新建：`/新对话`");
-			await replyCard(messageId, lines.join("\n"), { title: "💬 会话列表", color: "blue" });
+			const buttons = history
+				.map((h, i) => ({ h, i }))
+				.filter(({ h }) => h.id !== activeId)
+				.slice(0, MAX_LIST_BUTTONS)
+				.map(({ i }) => commandButton(`切换到 #${i + 1}`, `/会话 ${i + 1}`, sessionCtx));
+			buttons.push(commandButton("🆕 新对话", "/新对话", sessionCtx, "primary"));
+			await replyCard(bot, messageId, lines.join("\n"), { title: "💬 会话列表", color: "blue" }, buttons);
 			return;
 		}
 
@@ -1987,11 +3854,11 @@ async function handleInner(
 		if (!Number.isNaN(num) && num >= 1 && num <= history.length) {
 			const target = history[num - 1];
 			if (target.id === activeId) {
-				await replyCard(messageId, `当前已是会话 #${num}：${target.summary}`, { title: "无需切换", color: "blue" });
+				await replyCard(bot, messageId, `当前已是会话 #${num}：${target.summary}`, { title: "无需切换", color: "blue" });
 				return;
 			}
-			switchToSession(workspace, target.id);
-			await replyCard(messageId, `已切换到会话 #${num}：**${target.summary}**\n\n下一条消息将在此会话中继续对话。\n\`${target.id.slice(0, 12)}\` · ${formatRelativeTime(target.lastActiveAt)}`, { title: "💬 已切换", color: "green" });
+			switchToSession(sessionKey, target.id);
+			await replyCard(bot, messageId, `已切换到会话 #${num}：**${target.summary}**\n\n下一条消息将在此会话中继续对话。\n\`${target.id.slice(0, 12)}\` · ${formatRelativeTime(target.lastActiveAt)}`, { title: "💬 已切换", color: "green" });
 			console.log(`[Session] 切换到 ${target.id.slice(0, 12)} (${target.summary})`);
 			return;
 		}
@@ -2000,46 +3867,87 @@ async function handleInner(
 		if (subArg.length >= 4) {
 			const target = history.find((h) => h.id.startsWith(subArg));
 			if (target) {
-				switchToSession(workspace, target.id);
-				await replyCard(messageId, `已切换到：**${target.summary}**\n\n\`${target.id.slice(0, 12)}\` · ${formatRelativeTime(target.lastActiveAt)}`, { title: "💬 已切换", color: "green" });
+				switchToSession(sessionKey, target.id);
+				await replyCard(bot, messageId, `已切换到：**${target.summary}**\n\n\`${target.id.slice(0, 12)}\` · ${formatRelativeTime(target.lastActiveAt)}`, { title: "💬 已切换", color: "green" });
 				return;
 			}
 		}
 
-		await replyCard(messageId, `未找到编号 ${subArg} 的会话。\n\n发送 \`/会话\` 查看可用列表。`, { title: "未找到", color: "orange" });
+		await replyCard(bot, messageId, `未找到编号 ${subArg} 的会话。\n\n发送 \`/会话\` 查看可用列表。`, { title: "未找到", color: "orange" });
 		return;
 	}
 
 	// 未知 / 指令 → 友好提示
 	if (text.startsWith("/")) {
 		const cmd = text.split(/[\s:：]/)[0];
-		await replyCard(messageId, `未知指令 \`${cmd}\`\n\n发送 \`/帮助\` 查看所有可用指令。`, { title: "未知指令", color: "orange" });
+		await replyCard(bot, messageId, `未知指令 \`${cmd}\`\n\n发送 \`/帮助\` 查看所有可用指令。`, { title: "未知指令", color: "orange" });
 		return;
 	}
 
+	if (await denied("chat")) return;
+
+	// 引用回复：把被引用消息（及其附件）拼到 prompt 前面；话题内回复根消息时会话已有上下文，不重复拼接
+	const quotedParentId = sessionCtx.parentId && !(threadWorkspace && sessionCtx.parentId === sessionCtx.rootId)
+		? sessionCtx.parentId
+		: undefined;
+	const quoted = quotedParentId ? await buildQuotedContext(bot, quotedParentId) : undefined;
+	const agentPrompt = quoted ? `${quoted}\n\n${prompt}` : prompt;
+	await runChatTask(bot, sessionCtx, { workspace, sessionKey, prompt, agentPrompt, label, cardId });
+}
+
+// ── 对话执行 ─────────────────────────────────────
+// 新消息与「重新执行」按钮共用：排队 → 执行 → 回写卡片。从入队到结束都记录在 .inflight.json，重启后据此恢复
+async function runChatTask(
+	bot: BotAccount,
+	sessionCtx: SessionContext,
+	job: { workspace: string; sessionKey: string; prompt: string; agentPrompt: string; label: string; cardId?: string },
+): Promise<void> {
+	const { messageId, chatId, chatType } = sessionCtx;
+	const { workspace, sessionKey, prompt, agentPrompt, label } = job;
+	const cfg = accountConfig(bot.id);
+	let cardId = job.cardId;
+
 	const model = config.CURSOR_MODEL;
 
-	// 创建或复用卡片：全局排队卡片 → 同会话排队 → 处理中
-	const currentLockKey = getLockKey(workspace);
-	const needsSessionQueue = !cardId && busySessions.has(currentLockKey);
-	if (!cardId) {
-		const status = needsSessionQueue
-			? `⏳ 排队中（同会话有任务进行中）\n\n> ${prompt.slice(0, 120)}`
-			: `⏳ 正在执行...\n\n> ${prompt.slice(0, 120)}`;
-		cardId = await replyCard(messageId, status, {
-			title: needsSessionQueue ? "排队中" : "处理中",
-			color: needsSessionQueue ? "grey" : "wathet",
-		});
-	} else {
-		// 从全局排队卡片复用，看是否还需要等同会话锁
-		const status = busySessions.has(currentLockKey)
-			? `⏳ 排队中（同会话有任务进行中）\n\n> ${prompt.slice(0, 120)}`
-			: `⏳ 正在执行...\n\n> ${prompt.slice(0, 120)}`;
-		await updateCard(cardId, status, {
-			title: busySessions.has(currentLockKey) ? "排队中" : "处理中",
-			color: busySessions.has(currentLockKey) ? "grey" : "wathet",
-		});
+	// 创建或复用卡片：优先 CardKit 流式卡片，不可用时回退普通卡片 + 定时更新；同会话有任务时先显示排队
+	const currentLockKey = getLockKey(sessionKey);
+	const needsSessionQueue = taskQueue.wouldWait(currentLockKey);
+	const taskId = randomUUID().slice(0, 8);
+	const status = needsSessionQueue
+		? `⏳ 排队中...\n\n> ${prompt.slice(0, 120)}`
+		: `⏳ 正在执行...\n\n> ${prompt.slice(0, 120)}`;
+	const statusHeader = {
+		title: needsSessionQueue ? "排队中" : "处理中",
+		color: needsSessionQueue ? "grey" : "wathet",
+	};
+	// 执行中的卡片带「终止」按钮；排队时改为「取消」（按任务 ID 取消，不会误停同会话正在跑的任务）
+	const stopButtons: CardButton[] = [{ text: "⏹ 终止", value: { action: "stop", lockKey: currentLockKey, chatType }, type: "danger" }];
+	const cancelButtons = [commandButton("✖ 取消排队", `/队列 取消 ${taskId}`, sessionCtx, "danger")];
+	const queuedButtons = needsSessionQueue ? cancelButtons : stopButtons;
+	// 流式卡片的标题只在结束时更新，排队状态只体现在正文里
+	const stream = cardId ? undefined : await startStreamingCard(bot, messageId, chatId, status, { title: "处理中", color: "wathet" }, queuedButtons);
+	if (cardId) {
+		// 复用语音识别卡片
+		await updateCard(bot, cardId, status, statusHeader, queuedButtons);
+	} else if (!stream) {
+		cardId = await replyCard(bot, messageId, status, statusHeader, queuedButtons);
 	}
+	const reactions = createStatusReactions(bot, messageId);
+	inflight.add({
+		taskId,
+		accountId: bot.id,
+		chatId,
+		chatType,
+		messageId,
+		senderOpenId: sessionCtx.senderOpenId,
+		rootId: sessionCtx.rootId,
+		cardId: cardId ?? stream?.getMessageId(),
+		workspace,
+		sessionKey,
+		prompt,
+		agentPrompt,
+		label,
+	});
 	console.log(`[Agent] 调用 Cursor CLI workspace=${workspace} model=${model} card=${cardId}`);
 	const taskStart = Date.now();
 
@@ -2049,30 +3957,68 @@ async function handleInner(
 	}
 
 	// runAgent 获取 session lock 后回调 onStart，更新卡片为"处理中"
-	const onStart = cardId
-		? () => {
-				updateCard(cardId!, `⏳ 正在执行...\n\n> ${prompt.slice(0, 120)}`, {
-					title: "处理中",
-					color: "wathet",
-				}).catch(() => {});
-			}
-		: undefined;
+	const runningText = `⏳ 正在执行...\n\n> ${prompt.slice(0, 120)}`;
+	const onStart = () => {
+		reactions.working();
+		inflight.update(taskId, { state: "running", startedAt: Date.now(), sessionId: getActiveSessionId(sessionKey) });
+		if (stream) {
+			stream.update(runningText).catch(() => {});
+		} else if (cardId) {
+			updateCard(bot, cardId, runningText, { title: "处理中", color: "wathet" }, stopButtons).catch(() => {});
+		}
+	};
+
+	// 排队位置变化时更新卡片
+	const onQueued = ({ position, etaMs }: QueuePosition) => {
+		reactions.queued();
+		const eta = etaMs > 0 ? `，预计 ${formatElapsed(Math.max(Math.round(etaMs / 1000), 1))}后开始` : "";
+		const queuedText = `⏳ 排队中：前面还有 ${position - 1} 个任务${eta}\n\n> ${prompt.slice(0, 120)}\n\n发送 \`/队列\` 查看全部排队任务`;
+		if (stream) {
+			stream.update(queuedText).catch(() => {});
+		} else if (cardId) {
+			updateCard(bot, cardId, queuedText, { title: `排队中 · 第 ${position} 位`, color: "grey" }, cancelButtons).catch(() => {});
+		}
+	};
+
+	const describeProgress = (p: AgentProgress) => {
+		const time = formatElapsed(p.elapsed);
+		const phaseLabel = p.phase === "thinking" ? "🤔 思考中" : p.phase === "tool_call" ? "🔧 执行工具" : "💬 回复中";
+		const snippet = p.snippet.split("\n").filter((l) => l.trim()).slice(-4).join("\n");
+		return { title: `${phaseLabel} · ${time}`, body: `\`\`\`\n${snippet.slice(0, 300) || "..."}\n\`\`\`` };
+	};
 
-	const onProgress = cardId
+	// 流式模式：回复文本逐字写入卡片，思考/工具阶段显示进度摘要
+	const onProgress = stream
 		? (p: AgentProgress) => {
-				const time = formatElapsed(p.elapsed);
-				const phaseLabel = p.phase === "thinking" ? "🤔 思考中" : p.phase === "tool_call" ? "🔧 执行工具" : "💬 回复中";
-				const snippet = p.snippet.split("\n").filter((l) => l.trim()).slice(-4).join("\n");
-				updateCard(
-					cardId!,
-					`\`\`\`\n${snippet.slice(0, 300) || "..."}\n\`\`\``,
-					{ title: `${phaseLabel} · ${time}`, color: "wathet" },
-				).catch(() => {});
+				if (p.phase === "responding") return;
+				const { title, body } = describeProgress(p);
+				stream.update(`**${title}**\n\n${body}`).catch(() => {});
+			}
+		: cardId
+			? (p: AgentProgress) => {
+					const { title, body } = describeProgress(p);
+					updateCard(bot, cardId!, body, { title, color: "wathet" }, stopButtons).catch(() => {});
+				}
+			: undefined;
+
+	const onText = stream
+		? (text: string) => {
+				const shown = replaceLocalImageLinks(text);
+				stream.update(shown.length > CARD_MAX ? `...${shown.slice(-CARD_MAX)}` : shown).catch(() => {});
 			}
 		: undefined;
 
+	let interruptedByShutdown = false;
 	try {
-		const { result, quotaWarning } = await runAgent(workspace, prompt, { onProgress, onStart });
+		const { result, quotaWarning } = await runAgent(workspace, agentPrompt, {
+			onProgress,
+			onText,
+			onStart,
+			sessionKey,
+			persona: cfg.persona,
+			task: { id: taskId, label: `${label}: ${prompt.replace(/\s+/g, " ").slice(0, 30)}`, owner: sessionCtx.senderOpenId, onQueued },
+			usage: { source: "chat", chatId, accountId: bot.id },
+		});
 		const usedModel = quotaWarning ? "auto" : model;
 		const elapsed = formatElapsed(Math.round((Date.now() - taskStart) / 1000));
 		console.log(`[${new Date().toISOString()}] 完成 [${label}] model=${usedModel} elapsed=${elapsed} (${result.length} chars)`);
@@ -2084,21 +4030,28 @@ async function handleInner(
 
 		// Agent 可能修改了 cron-jobs.json，重新加载调度器
 		scheduler.reload().catch(() => {});
+		reactions.done(true);
 
-		const fullResult = quotaWarning ? `${quotaWarning}\n\n---\n\n${result}` : result;
+		const artifacts = [...new Set([...extractArtifacts(result, workspace), ...collectOutbox(workspace, taskStart)])];
+		const shownResult = replaceLocalImageLinks(result);
+		const fullResult = quotaWarning ? `${quotaWarning}\n\n---\n\n${shownResult}` : shownResult;
 		const doneTitle = quotaWarning ? `完成 · ${elapsed}` : `完成 · ${elapsed}`;
 		const doneColor = quotaWarning ? "orange" : "green";
 
 		// 尝试发送 AI 结果到飞书卡片
 		let sendOk = false;
-		if (cardId && fullResult.length <= CARD_MAX) {
-			const { ok, error } = await updateCard(cardId, fullResult, { title: doneTitle, color: doneColor });
+		if (stream) {
+			const fits = fullResult.length <= CARD_MAX;
+			const closed = await stream.close(fits ? fullResult : quotaWarning || "执行完成，结果见下方", { title: doneTitle, color: doneColor });
+			sendOk = closed && fits;
+		} else if (cardId && fullResult.length <= CARD_MAX) {
+			const { ok, error } = await updateCard(bot, cardId, fullResult, { title: doneTitle, color: doneColor });
 			if (ok) {
 				sendOk = true;
 			} else {
 				// 卡片更新失败 → 让大模型知道，自己重新组织回复
 				console.log(`[重发] 卡片更新失败: ${error}，通知 AI 重新回复`);
-				await updateCard(cardId, `⏳ 回复格式超出飞书限制，正在重新组织...`, { title: "重新组织中", color: "wathet" });
+				await updateCard(bot, cardId, `⏳ 回复格式超出飞书限制，正在重新组织...`, { title: "重新组织中", color: "wathet" });
 
 				const retryPrompt = [
 					"你的上一条回复发送到飞书时失败了。",
@@ -2116,9 +4069,15 @@ async function handleInner(
 				].join("\n");
 
 				try {
-					const { result: retryResult } = await runAgent(workspace, retryPrompt, { onProgress });
+					const { result: retryResult } = await runAgent(workspace, retryPrompt, {
+						onProgress,
+						sessionKey,
+						persona: cfg.persona,
+						task: { owner: sessionCtx.senderOpenId },
+						usage: { source: "chat", chatId, accountId: bot.id },
+					});
 					const retryElapsed = formatElapsed(Math.round((Date.now() - taskStart) / 1000));
-					const { ok: retryOk } = await updateCard(cardId, retryResult, { title: `完成 · ${retryElapsed}`, color: doneColor });
+					const { ok: retryOk } = await updateCard(bot, cardId, retryResult, { title: `完成 · ${retryElapsed}`, color: doneColor });
 					if (retryOk) {
 						sendOk = true;
 						console.log(`[重发] AI 重新回复成功 (${retryResult.length} chars)`);
@@ -2134,70 +4093,404 @@ async function handleInner(
 		// 卡片发送失败或内容过长 → 回退分片发送
 		if (!sendOk) {
 			if (cardId) {
-				await updateCard(cardId, quotaWarning || "执行完成，结果见下方", { title: doneTitle, color: doneColor });
+				await updateCard(bot, cardId, quotaWarning || "执行完成，结果见下方", { title: doneTitle, color: doneColor });
+			}
+			await replyLongMessage(bot, messageId, chatId, shownResult, { title: doneTitle, color: "green" });
+		}
+
+		// 回复中引用的本地图片/文件及 outbox 新文件 → 发回飞书
+		if (artifacts.length > 0) {
+			const failed = await deliverArtifacts(bot, messageId, chatId, workspace, artifacts);
+			if (failed.length > 0) {
+				await replyCard(bot, messageId, failed.map((f) => `- ${f}`).join("\n"), { title: "📎 附件未发送", color: "orange" });
 			}
-			await replyLongMessage(messageId, chatId, result, { title: doneTitle, color: "green" });
 		}
 	} catch (err) {
 		const msg = err instanceof Error ? err.message : String(err);
-		console.error(`[${new Date().toISOString()}] 失败 [${label}]: ${msg}`);
-		if (err instanceof Error && err.stack) console.error(`[Stack] ${err.stack}`);
+		reactions.done(false);
+		if (shuttingDown && err instanceof AgentStoppedError && err.reason !== "user") {
+			// 停机中断：不动卡片、保留 .inflight.json 记录，下次启动由 recoverInterruptedRuns 标为「已中断」并提供重新执行
+			interruptedByShutdown = true;
+			console.log(`[停机] 中断 [${label}]，重启后恢复`);
+			return;
+		}
+		if (err instanceof AgentStoppedError && err.reason === "user") {
+			console.log(`[${new Date().toISOString()}] 已停止 [${label}]`);
+		} else {
+			console.error(`[${new Date().toISOString()}] 失败 [${label}]: ${msg}`);
+			if (err instanceof Error && err.stack) console.error(`[Stack] ${err.stack}`);
+		}
 
 		const isAuthError = /authentication required|not authenticated|unauthorized|api.key/i.test(msg);
-		const body = isAuthError
+		let body = isAuthError
 			? `**API Key 失效，请更换：**\n\n1. 打开 [Cursor Dashboard](https://cursor.com/dashboard) → Integrations → User API Keys\n2. 点 **Create API Key** 生成新 Key\n3. 在飞书发送：\`/apikey 你的新Key\`\n\n\`\`\`\n${msg.slice(0, 500)}\n\`\`\``
 			: `**执行失败**\n\n\`\`\`\n${msg.slice(0, 2000)}\n\`\`\``;
-		const title = isAuthError ? "API Key 失效" : "执行失败";
+		let title = isAuthError ? "API Key 失效" : "执行失败";
+		let color = "red";
+		if (err instanceof TaskCancelledError) {
+			body = "任务已从队列中取消，未执行。";
+			title = "已取消";
+			color = "grey";
+		}
+		// 超时 / 手动终止：说明原因并附上已产生的部分输出（保留结尾，卡片放得下）
+		const partialTail = (output: string) => {
+			const partial = replaceLocalImageLinks(output.trim());
+			return partial.length > CARD_MAX - 400 ? `...${partial.slice(-(CARD_MAX - 400))}` : partial;
+		};
+		if (err instanceof AgentStoppedError && err.reason === "signal") {
+			body = `**${err.message}**\n\n${partialTail(err.partialOutput) || "终止前没有产生输出。"}\n\n---\n发送新消息可在当前会话中继续。`;
+			title = "已中断";
+			color = "orange";
+		}
+		if (err instanceof AgentStoppedError && err.reason === "user") {
+			const tail = partialTail(err.partialOutput);
+			body = [
+				"⏹ **任务已停止**，已终止 Agent 及其子进程。",
+				"",
+				tail ? `**停止前的部分输出：**\n\n${tail}` : "停止前没有产生输出。",
+				"",
+				"---",
+				"发送新消息可在当前会话中继续。",
+			].join("\n");
+			title = "已停止";
+			color = "grey";
+		}
+		if (err instanceof AgentTimeoutError) {
+			const tail = partialTail(err.partialOutput);
+			body = [
+				`⏱ **${err.message}**，已终止 Agent 及其子进程。`,
+				"",
+				tail ? `**超时前的部分输出：**\n\n${tail}` : "超时前没有产生输出。",
+				"",
+				"---",
+				"发送新消息可在当前会话中继续（如「继续」）。",
+			].join("\n");
+			title = err.kind === "total" ? "执行超时" : "长时间无响应";
+			color = "orange";
+		}
 
-		if (cardId) {
-			await updateCard(cardId, body, { title, color: "red" });
+		if (stream) {
+			await stream.close(body, { title, color });
+		} else if (cardId) {
+			await updateCard(bot, cardId, body, { title, color });
 		} else {
-			await replyCard(messageId, body, { title, color: "red" });
+			await replyCard(bot, messageId, body, { title, color });
+		}
+	} finally {
+		if (!interruptedByShutdown) inflight.remove(taskId);
+	}
+}
+
+// ── 中断恢复 ─────────────────────────────────────
+// 启动时把上次未完成的对话卡片改为「已中断」并附「重新执行」按钮（7 天内有效）；
+// .env AGENT_RESUME_ON_RESTART=true 时直接在原会话中重新执行
+const INTERRUPTED_KEEP_MS = 7 * DAY_MS;
+
+function interruptedButtons(run: InflightRun): CardButton[] {
+	return [{ text: "🔁 重新执行", value: { action: "resume", taskId: run.taskId, chatType: run.chatType }, type: "primary" }];
+}
+
+// 在原消息下回复（话题模式的群里回复到话题内）
+async function withThreadReply<T>(bot: BotAccount, run: InflightRun, fn: () => Promise<T>): Promise<T> {
+	const topic = isTopicSessionMode(accountConfig(bot.id), run.chatId, run.chatType);
+	if (topic) threadReplyMessages.add(run.messageId);
+	try {
+		return await fn();
+	} finally {
+		if (topic) threadReplyMessages.delete(run.messageId);
+	}
+}
+
+async function resumeInterruptedRun(bot: BotAccount, run: InflightRun, senderOpenId = run.senderOpenId): Promise<void> {
+	inflight.remove(run.taskId);
+	if (run.cardId) {
+		updateCard(bot, run.cardId, `🔁 已重新执行\n\n> ${run.prompt.slice(0, 120)}`, { title: "已重新执行", color: "grey" }).catch(() => {});
+	}
+	// 执行到一半被中断时，工作区里可能留有未完成的改动
+	const agentPrompt = run.startedAt
+		? `（上一次执行因服务重启被中断，工作区里可能有未完成的改动，请先检查当前状态再继续。）\n\n${run.agentPrompt}`
+		: run.agentPrompt;
+	console.log(`[恢复] 重新执行 ${run.taskId} (${run.label})`);
+	const sessionCtx: SessionContext = {
+		accountId: bot.id,
+		chatId: run.chatId,
+		chatType: run.chatType,
+		messageId: run.messageId,
+		senderOpenId,
+		rootId: run.rootId,
+	};
+	await withThreadReply(bot, run, () =>
+		runChatTask(bot, sessionCtx, { workspace: run.workspace, sessionKey: run.sessionKey, prompt: run.prompt, agentPrompt, label: run.label }),
+	);
+}
+
+async function recoverInterruptedRuns(): Promise<void> {
+	const runs = inflight.recover(INTERRUPTED_KEEP_MS);
+	if (runs.length === 0) return;
+	console.log(`[恢复] 上次停机时有 ${runs.length} 个对话未完成${config.AGENT_RESUME_ON_RESTART ? "，自动重新执行" : ""}`);
+	for (const run of runs) {
+		const bot = bots.get(run.accountId);
+		if (!bot) {
+			inflight.remove(run.taskId);
+			continue;
+		}
+		if (config.AGENT_RESUME_ON_RESTART) {
+			resumeInterruptedRun(bot, run).catch((e) => console.error(`[恢复] ${run.taskId} 重新执行失败:`, e));
+			continue;
+		}
+		const body = [
+			`⚠️ 服务重启，任务在${run.startedAt ? "执行中" : "排队时"}被中断。`,
+			"",
+			`> ${run.prompt.slice(0, 120)}`,
+			"",
+			"点击「重新执行」在原会话中再跑一次。",
+		].join("\n");
+		const header = { title: "已中断", color: "orange" };
+		const updated = run.cardId ? (await updateCard(bot, run.cardId, body, header, interruptedButtons(run))).ok : false;
+		if (!updated) {
+			// 流式卡片或已被删除的卡片无法更新，改为新回复一张
+			const cardId = await withThreadReply(bot, run, () => replyCard(bot, run.messageId, body, header, interruptedButtons(run)));
+			inflight.update(run.taskId, { cardId });
 		}
 	}
 }
 
 // ── 飞书长连接 ───────────────────────────────────
-const dispatcher = new Lark.EventDispatcher({});
-const TYPES = new Set(["text", "image", "audio", "file", "post"]);
+const TYPES = new Set(["text", "image", "audio", "file", "post", ...EXPANDED_TYPES]);
 
-dispatcher.register({
-	"im.message.receive_v1": async (data) => {
-		console.log("[事件] 收到 im.message.receive_v1");
-		try {
-			const ev = data as Record<string, unknown>;
-			const msg = ev.message as Record<string, unknown>;
-			if (!msg) {
-				console.error("[事件] msg 为空");
-				return;
-			}
-			const messageType = msg.message_type as string;
-			const messageId = msg.message_id as string;
-			const chatId = msg.chat_id as string;
-			const chatType = (msg.chat_type as string) || "p2p";
-			const content = msg.content as string;
-
-			if (isDup(messageId)) return;
-			if (!TYPES.has(messageType)) {
-				await replyCard(messageId, `暂不支持: ${messageType}`);
-				return;
+function createBotDispatcher(bot: BotAccount): Lark.EventDispatcher {
+	const dispatcher = createEventDispatcher(bot.account);
+	dispatcher.register({
+		"im.message.receive_v1": async (data) => {
+			console.log(`[事件] ${bot.id} 收到 im.message.receive_v1`);
+			try {
+				const ev = data as Record<string, unknown>;
+				const msg = ev.message as Record<string, unknown>;
+				if (!msg) {
+					console.error("[事件] msg 为空");
+					return;
+				}
+				const messageType = msg.message_type as string;
+				const messageId = msg.message_id as string;
+				const chatId = msg.chat_id as string;
+				const chatType = (msg.chat_type as string) || "p2p";
+				const content = msg.content as string;
+				const senderIdObj = ((ev.sender as Record<string, unknown>)?.sender_id ?? {}) as { open_id?: string; user_id?: string; union_id?: string };
+				const sender: SenderInfo = {
+					openId: senderIdObj.open_id || "",
+					userId: senderIdObj.user_id,
+					unionId: senderIdObj.union_id,
+				};
+
+				// 同一群里的多个机器人会收到同一条消息，按账号分别去重
+				if (await isDup(bot, messageId)) return;
+				metric.events.inc({ account: bot.id, type: messageType });
+				const cfg = accountConfig(bot.id);
+
+				// 群聊：按 requireMention 判定是否需要 @机器人，未 @ 则静默忽略
+				const mentionEvent = data as unknown as FeishuMessageEvent;
+				if (chatType === "group") {
+					const { requireMention } = resolveFeishuReplyPolicy({
+						isDirectMessage: false,
+						globalConfig: cfg,
+						groupConfig: resolveFeishuGroupConfig({ cfg, groupId: chatId }),
+					});
+					// 话题模式下，机器人已接管的话题内回复无需再 @
+					const rootId = (msg.root_id as string) || undefined;
+					const inBotThread = !!rootId && isTopicSessionMode(cfg, chatId, chatType) && !!findThreadWorkspace(bot.id, chatId, rootId);
+					if (requireMention && !inBotThread && !(await isBotMentioned(bot, mentionEvent))) {
+						console.log(`[群聊] 未 @机器人，忽略 chat=${chatId} msg=${messageId}`);
+						return;
+					}
+				}
+
+				const access = checkAccess(cfg, chatId, chatType, sender);
+				const auditText = redactForAudit(parseContent(messageType, content).text);
+				if (!access.allowed) {
+					audit.append({
+						kind: "message",
+						action: "rejected",
+						accountId: bot.id,
+						chatId,
+						senderId: sender.openId,
+						detail: { messageId, chatType, messageType, reason: access.reason, text: auditText },
+					});
+					logRejectedSender({
+						chatId, chatType, sender,
+						reason: access.reason,
+						messageType,
+						preview: parseContent(messageType, content).text.slice(0, 80),
+					});
+					const noticeKey = access.reason.startsWith("group-") ? chatId : `${chatId}:${sender.openId}`;
+					if (shouldNotifyRejection(noticeKey)) {
+						await replyCard(bot, messageId, buildRejectionText(access.reason, chatId, sender.openId), { title: "🔒 暂无使用权限", color: "grey" });
+					}
+					return;
+				}
+
+				audit.append({
+					kind: "message",
+					action: "receive",
+					accountId: bot.id,
+					chatId,
+					senderId: sender.openId,
+					detail: { messageId, chatType, messageType, rootId: msg.root_id || undefined, parentId: msg.parent_id || undefined, text: auditText },
+				});
+
+				if (!TYPES.has(messageType)) {
+					await replyCard(bot, messageId, `暂不支持: ${messageType}`);
+					return;
+				}
+
+				const { text: rawText, imageKey, fileKey } = parseContent(messageType, content);
+				const parsedText = stripMentions(bot, rawText, mentionEvent);
+				console.log(`[解析] type=${messageType} chat=${chatType} text="${parsedText.slice(0, 60)}" img=${imageKey ?? ""} file=${fileKey ?? ""}`);
+				handle({
+					bot,
+					text: parsedText.trim(), messageId, chatId, chatType, messageType, content,
+					senderOpenId: sender.openId,
+					rootId: (msg.root_id as string) || undefined,
+					parentId: (msg.parent_id as string) || undefined,
+				}).catch(console.error);
+			} catch (e) {
+				console.error("[事件异常]", e);
 			}
+		},
+		// 卡片按钮点击（终止、切换模型/会话、任务操作）
+		"card.action.trigger": async (data: unknown) => handleCardAction(bot, data as Record<string, unknown>),
+	});
+	return dispatcher;
+}
 
-			const { text: parsedText, imageKey, fileKey } = parseContent(messageType, content);
-			console.log(`[解析] type=${messageType} chat=${chatType} text="${parsedText.slice(0, 60)}" img=${imageKey ?? ""} file=${fileKey ?? ""}`);
-			handle({ text: parsedText.trim(), messageId, chatId, chatType, messageType, content }).catch(console.error);
-		} catch (e) {
-			console.error("[事件异常]", e);
-		}
-	},
-});
+// ── Webhook（HTTP 回调）模式 ─────────────────────
+// connectionMode = "webhook" 的机器人不建长连接，改由本地 HTTP 服务接收事件（可置于反向代理之后）
+// 默认只监听 127.0.0.1；每个 webhook 机器人必须配置 encryptKey 或 verificationToken，否则拒绝启动
+const webhookPort = feishuConfig.webhookPort ?? DEFAULT_WEBHOOK_PORT;
+const webhookHost = feishuConfig.webhookHost || DEFAULT_WEBHOOK_HOST;
 
-const ws = new Lark.WSClient({
-	appId: config.FEISHU_APP_ID,
-	appSecret: config.FEISHU_APP_SECRET,
-	domain: Lark.Domain.Feishu,
-	loggerLevel: Lark.LoggerLevel.info,
-});
+function isWebhookBot(bot: BotAccount): boolean {
+	return bot.account.config.connectionMode === "webhook";
+}
+
+function startWebhookServer(routes: Map<string, FeishuWebhookHandler>): void {
+	try {
+		Bun.serve({
+			port: webhookPort,
+			hostname: webhookHost,
+			fetch: (req) => {
+				const handler = routes.get(new URL(req.url).pathname);
+				return handler ? handler(req) : new Response("Not Found", { status: 404 });
+			},
+		});
+		for (const path of routes.keys()) console.log(`[webhook] 监听 http://${webhookHost}:${webhookPort}${path}`);
+	} catch (e) {
+		console.error(`[webhook] 启动失败（端口 ${webhookPort}），HTTP 回调模式的机器人收不到消息: ${e instanceof Error ? e.message : e}`);
+	}
+}
+
+// ── 指标服务（/metrics）──────────────────────────
+function startMetricsServer(): void {
+	const port = config.METRICS_PORT;
+	if (!port) return;
+	try {
+		Bun.serve({
+			port,
+			hostname: config.METRICS_HOST,
+			fetch: (req) => {
+				if (new URL(req.url).pathname !== "/metrics") return new Response("Not Found", { status: 404 });
+				return new Response(metrics.render(), { headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" } });
+			},
+		});
+		console.log(`[指标] 监听 http://${config.METRICS_HOST}:${port}/metrics`);
+	} catch (e) {
+		console.warn(`[指标] 启动失败（端口 ${port}）: ${e instanceof Error ? e.message : e}`);
+	}
+}
+
+// ── 服务状态（/状态 与管理台共用）──────────────────
+function serviceStatus(): AdminStatus {
+	const schedStats = scheduler.getStats();
+	const hb = heartbeat.getStatus();
+	const q = taskQueue.list();
+	const stats = memory?.getStats();
+	return {
+		model: config.CURSOR_MODEL,
+		apiKey: config.CURSOR_API_KEY ? `...${config.CURSOR_API_KEY.slice(-8)}` : "未设置",
+		stt: config.VOLC_STT_APP_ID ? "火山引擎豆包大模型" : (existsSync(WHISPER_MODEL) ? "本地 whisper" : "不可用"),
+		memory: stats ? `全工作区索引（${stats.chunks} 块, ${stats.files} 文件, ${stats.cachedEmbeddings} 嵌入缓存）` : "未启用",
+		scheduler: schedStats.total > 0 ? `${schedStats.enabled}/${schedStats.total} 任务${schedStats.nextRunIn ? `（下次: ${schedStats.nextRunIn}）` : ""}` : "无任务",
+		heartbeat: hb.enabled ? `每 ${Math.round(hb.everyMs / 60000)} 分钟` : "未启用",
+		tasks: `${q.running.length} 个运行中，${q.waiting.length} 个排队${config.AGENT_MAX_CONCURRENT > 0 ? `（并发上限 ${config.AGENT_MAX_CONCURRENT}）` : ""}`,
+		bots: [...bots.values()].map((b) => ({ id: b.id, label: b.label, access: describeAccessPolicy(accountConfig(b.id)) })),
+		projects: Object.entries(projectsConfig.projects).map(([name, v]) => ({ name, path: v.path, isDefault: name === projectsConfig.default_project })),
+		startedAt: new Date(Date.now() - process.uptime() * 1000).toISOString(),
+	};
+}
+
+// ── 管理台（本地 Web UI）─────────────────────────
+// 端口 ADMIN_PORT（默认 9804，0 关闭），默认只监听本机；未设置 ADMIN_TOKEN 时不启动
+function startAdminServer(): void {
+	const port = config.ADMIN_PORT;
+	if (!port) return;
+	if (!config.ADMIN_TOKEN) {
+		console.log("[管理台] 未设置 ADMIN_TOKEN，已跳过");
+		return;
+	}
+	const handler = createAdminHandler({
+		token: () => config.ADMIN_TOKEN,
+		backend: {
+			status: serviceStatus,
+			tasks: () => taskQueue.list(),
+			killTask: (id) => {
+				const task = taskQueue.get(id);
+				if (!task) return false;
+				if (taskQueue.isRunning(id)) activeAgents.get(task.lockKey)?.kill();
+				else taskQueue.cancel(id);
+				console.log(`[管理台] 终止任务 ${id} (${task.label})`);
+				return true;
+			},
+			sessions: () => [...sessionsStore.entries()].map(([key, s]) => ({
+				key,
+				project: projectNameOf(s.workspace) ?? s.workspace,
+				scope: describeSessionScope(key).replace(/^ · /, ""),
+				active: s.active,
+				history: s.history.map((h) => ({ id: h.id, summary: h.summary, createdAt: h.createdAt, lastActiveAt: h.lastActiveAt })),
+			})),
+			cronJobs: () => scheduler.list(true),
+			updateCronJob: (id, patch) => scheduler.update(id, patch),
+			runCronJob: (id) => scheduler.run(id),
+			heartbeat: () => heartbeat.getStatus(),
+			updateHeartbeat: (patch) => {
+				heartbeat.updateConfig(patch);
+				return heartbeat.getStatus();
+			},
+			runHeartbeat: () => heartbeat.runOnce(),
+			memoryStats: () => memory?.getStats(),
+			searchMemory: async (query) => {
+				if (!memory) return [];
+				const endTimer = metric.memorySearch.startTimer();
+				try {
+					const results = await memory.search(query, 8);
+					endTimer({ result: results.length > 0 ? "hit" : "empty" });
+					return results;
+				} catch (e) {
+					endTimer({ result: "error" });
+					throw e;
+				}
+			},
+			onAction: (action, detail) => {
+				const kind = action.startsWith("task.") ? "command" : "config";
+				audit.append({ kind, action: `admin.${action}`, senderId: "admin-web", detail });
+			},
+		},
+	});
+	try {
+		Bun.serve({ port, hostname: config.ADMIN_HOST, fetch: handler });
+		console.log(`[管理台] 监听 http://${config.ADMIN_HOST}:${port}/`);
+	} catch (e) {
+		console.warn(`[管理台] 启动失败（端口 ${port}）: ${e instanceof Error ? e.message : e}`);
+	}
+}
 
 // ── 启动 ─────────────────────────────────────────
 const list = Object.entries(projectsConfig.projects)
@@ -2205,6 +4498,13 @@ const list = Object.entries(projectsConfig.projects)
 	.join("\n");
 const sttEngine = config.VOLC_STT_APP_ID ? "火山引擎豆包大模型" : "本地 whisper";
 const memEngine = memory ? `豆包 Embedding (${config.VOLC_EMBEDDING_MODEL})` : "未启用";
+// 按实际使用的连接方式列出（全部为 webhook 时不会建立长连接）；混用时注明各自的机器人
+const webhookBots = [...bots.values()].filter((b) => isWebhookBot(b));
+const wsBots = [...bots.values()].filter((b) => !isWebhookBot(b));
+const connDesc = [
+	...(webhookBots.length > 0 ? [`HTTP 回调（${webhookHost}:${webhookPort}${wsBots.length > 0 ? `，${webhookBots.map((b) => b.label).join(", ")}` : ""}）`] : []),
+	...(wsBots.length > 0 ? [`飞书 WebSocket 长连接${webhookBots.length > 0 ? `（${wsBots.map((b) => b.label).join(", ")}）` : ""}`] : []),
+].join(" + ");
 console.log(`
 ┌──────────────────────────────────────────────────┐
 │  飞书 → Cursor Agent 中继服务 v5                 │
@@ -2212,12 +4512,13 @@ console.log(`
 ├──────────────────────────────────────────────────┤
 │  模型: ${config.CURSOR_MODEL}
 │  Key:  ...${config.CURSOR_API_KEY.slice(-8)}
-│  连接: 飞书 WebSocket 长连接
+│  连接: ${connDesc}
+│  机器人: ${[...bots.values()].map((b) => (b.account.domain === "feishu" ? b.label : `${b.label} (${b.account.domain})`)).join(", ")}
 │  收件: ${INBOX_DIR}
 │  语音: ${sttEngine}
 │  记忆: ${memEngine}
 │  调度: cron-jobs.json (文件监听)
-│  心跳: 默认关闭（飞书 /心跳 开启）
+│  心跳: ${config.HEARTBEAT_ENABLED ? `每 ${config.HEARTBEAT_INTERVAL_MINUTES} 分钟` : "关闭"}（.env HEARTBEAT_*，飞书 /心跳 调整）
 │  自检: .cursor/BOOT.md（每次启动执行）
 │
 │  规则（每次会话自动加载）:
@@ -2242,8 +4543,29 @@ scheduler.start().catch((e) => console.warn(`[调度] 启动失败: ${e}`));
 
 heartbeat.start();
 
-ws.start({ eventDispatcher: dispatcher });
-console.log("飞书长连接已启动，等待消息...");
+const webhookRoutes = new Map<string, FeishuWebhookHandler>();
+for (const bot of bots.values()) {
+	const dispatcher = createBotDispatcher(bot);
+	if (isWebhookBot(bot)) {
+		if (!bot.account.encryptKey && !bot.account.verificationToken) {
+			console.error(`[致命] 机器人 ${bot.id} 使用 webhook 模式，但未配置 encryptKey 或 verificationToken，无法校验请求来源（任何人都能伪造事件）`);
+			process.exit(1);
+		}
+		webhookRoutes.set(resolveFeishuWebhookPath(bot.account), createFeishuWebhookHandler({
+			account: bot.account,
+			dispatcher,
+			log: (msg) => console.warn(msg),
+		}));
+	} else {
+		createFeishuWSClient(bot.account).start({ eventDispatcher: dispatcher });
+	}
+	resolveBotOpenId(bot).catch(() => {});
+}
+if (webhookRoutes.size > 0) startWebhookServer(webhookRoutes);
+startMetricsServer();
+startAdminServer();
+recoverInterruptedRuns().catch((e) => console.error("[恢复] 失败:", e));
+console.log(`飞书事件接收已启动（${bots.size} 个机器人），等待消息...`);
 
 // ── 启动自检（.cursor/BOOT.md）───────────────────────
 setTimeout(async () => {
@@ -2257,10 +4579,13 @@ setTimeout(async () => {
 			"你正在执行启动自检。严格按 .cursor/BOOT.md 指示操作。",
 			"如果无事可做，不需要回复任何内容。",
 		].join("\n");
-		const { result } = await runAgent(defaultWorkspace, bootPrompt);
+		const { result } = await runAgent(defaultWorkspace, bootPrompt, {
+			task: { label: "启动自检", priority: "low" },
+			usage: { source: "boot" },
+		});
 		const trimmed = result.trim();
-		if (trimmed && !/^(无输出|HEARTBEAT_OK)$/i.test(trimmed) && lastActiveChatId) {
-			await sendCard(lastActiveChatId, trimmed, { title: "🚀 启动自检", color: "wathet" });
+		if (trimmed && !/^(无输出|HEARTBEAT_OK)$/i.test(trimmed) && lastActive) {
+			await sendCard(lastActive.bot, lastActive.chatId, trimmed, { title: "🚀 启动自检", color: "wathet" });
 		}
 		console.log("[启动] .cursor/BOOT.md 自检完成");
 	} catch (e) {
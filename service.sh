@@ -42,6 +42,10 @@ generate_plist() {
 	<key>KeepAlive</key>
 	<true/>
 
+	<!-- 停机时等待运行中的任务（SHUTDOWN_DRAIN_SECONDS 默认 60 秒），超过后 launchd 才强杀 -->
+	<key>ExitTimeOut</key>
+	<integer>90</integer>
+
 	<key>StandardOutPath</key>
 	<string>$LOG_FILE</string>
 	<key>StandardErrorPath</key>
@@ -0,0 +1,250 @@
+/**
+ * Agent 任务队列 — 所有 Cursor Agent 调用的统一入口
+ *
+ * 特点：
+ * - 全局并发上限（0 为不限），同一会话（lockKey）始终串行
+ * - 按优先级（high > normal > low）排序，同级先进先出；可手动置顶
+ * - 提供排队位置与预计等待时间（按最近任务平均耗时估算）
+ * - 排队中的任务可取消
+ * - 停机时可停止派发并等待运行中的任务结束（drain）
+ */
+
+import { randomUUID } from "node:crypto";
+
+// ── 类型定义 ──────────────────────────────────────
+export type TaskPriority = "high" | "normal" | "low";
+
+export type TaskInfo = {
+	id: string;
+	/** 用于 /队列 展示的简短描述 */
+	label: string;
+	/** 会话锁：相同 lockKey 的任务不会同时运行 */
+	lockKey: string;
+	priority: TaskPriority;
+	/** 发起人 open_id（后台任务为空） */
+	owner?: string;
+	enqueuedAt: number;
+	startedAt?: number;
+};
+
+export type QueuePosition = {
+	/** 在等待队列中的位置，从 1 开始 */
+	position: number;
+	/** 预计多久后开始执行（毫秒） */
+	etaMs: number;
+};
+
+export type EnqueueOpts = {
+	id?: string;
+	label: string;
+	lockKey: string;
+	priority?: TaskPriority;
+	owner?: string;
+	/** 进入等待及排队位置变化时回调 */
+	onQueued?: (pos: QueuePosition) => void;
+};
+
+export class TaskCancelledError extends Error {
+	readonly task: TaskInfo;
+
+	constructor(task: TaskInfo) {
+		super(`任务已取消: ${task.label}`);
+		this.name = "TaskCancelledError";
+		this.task = task;
+	}
+}
+
+type QueueOpts = {
+	/** 全局并发上限，每次调度时读取（支持热更新）；0 为不限 */
+	maxConcurrent: () => number;
+	log?: (msg: string) => void;
+};
+
+type Waiting = {
+	info: TaskInfo;
+	start: () => void;
+	cancel: () => void;
+	onQueued?: (pos: QueuePosition) => void;
+	lastPosition?: number;
+};
+
+const PRIORITY_RANK: Record<TaskPriority, number> = { high: 0, normal: 1, low: 2 };
+// 尚无历史数据时假定的单任务耗时
+const DEFAULT_TASK_MS = 3 * 60 * 1000;
+const DURATION_SAMPLES = 20;
+
+export class TaskQueue {
+	private running = new Map<string, TaskInfo>();
+	private waiting: Waiting[] = [];
+	private durations: number[] = [];
+	private draining = false;
+	private opts: QueueOpts;
+	private log: (msg: string) => void;
+
+	constructor(opts: QueueOpts) {
+		this.opts = opts;
+		this.log = opts.log ?? ((msg) => console.log(`[队列] ${msg}`));
+	}
+
+	/** 排队执行 fn；被取消时以 TaskCancelledError 拒绝 */
+	run<T>(opts: EnqueueOpts, fn: () => Promise<T>): Promise<T> {
+		const info: TaskInfo = {
+			id: opts.id ?? randomUUID().slice(0, 8),
+			label: opts.label,
+			lockKey: opts.lockKey,
+			priority: opts.priority ?? "normal",
+			owner: opts.owner,
+			enqueuedAt: Date.now(),
+		};
+		return new Promise<T>((resolve, reject) => {
+			const entry: Waiting = {
+				info,
+				onQueued: opts.onQueued,
+				cancel: () => reject(new TaskCancelledError(info)),
+				start: () => {
+					info.startedAt = Date.now();
+					this.running.set(info.id, info);
+					fn().then(resolve, reject).finally(() => {
+						this.running.delete(info.id);
+						this.recordDuration(Date.now() - info.startedAt!);
+						this.pump();
+					});
+				},
+			};
+			this.insert(entry);
+			this.pump();
+		});
+	}
+
+	/** 按当前状态，新任务是否需要等待 */
+	wouldWait(lockKey: string): boolean {
+		if (this.isLocked(lockKey)) return true;
+		if (this.waiting.some((w) => w.info.lockKey === lockKey)) return true;
+		const cap = this.opts.maxConcurrent();
+		return cap > 0 && this.running.size >= cap;
+	}
+
+	list(): { running: TaskInfo[]; waiting: Array<TaskInfo & QueuePosition> } {
+		const etas = this.estimate();
+		return {
+			running: [...this.running.values()].sort((a, b) => a.startedAt! - b.startedAt!),
+			waiting: this.waiting.map((w, i) => ({ ...w.info, position: i + 1, etaMs: etas[i] ?? 0 })),
+		};
+	}
+
+	get(id: string): TaskInfo | undefined {
+		return this.running.get(id) ?? this.waiting.find((w) => w.info.id === id)?.info;
+	}
+
+	isRunning(id: string): boolean {
+		return this.running.has(id);
+	}
+
+	/** 取消排队中的任务；运行中的任务需由调用方终止进程 */
+	cancel(id: string): TaskInfo | undefined {
+		const idx = this.waiting.findIndex((w) => w.info.id === id);
+		if (idx < 0) return undefined;
+		const [entry] = this.waiting.splice(idx, 1);
+		entry!.cancel();
+		this.log(`取消 ${id} (${entry!.info.label})`);
+		this.notifyPositions();
+		return entry!.info;
+	}
+
+	/** 置顶：提升为 high 并排到最前 */
+	moveToFront(id: string): TaskInfo | undefined {
+		const idx = this.waiting.findIndex((w) => w.info.id === id);
+		if (idx < 0) return undefined;
+		const [entry] = this.waiting.splice(idx, 1);
+		entry!.info.priority = "high";
+		this.waiting.unshift(entry!);
+		this.log(`置顶 ${id} (${entry!.info.label})`);
+		this.pump();
+		return entry!.info;
+	}
+
+	/**
+	 * 停机：不再启动排队中的任务，等待运行中的任务结束。
+	 * 超时返回 false（由调用方终止进程）；排队中的任务保持等待，不会被拒绝
+	 */
+	async drain(timeoutMs: number): Promise<boolean> {
+		this.draining = true;
+		const deadline = Date.now() + timeoutMs;
+		while (this.running.size > 0) {
+			if (Date.now() >= deadline) return false;
+			await new Promise((r) => setTimeout(r, 200));
+		}
+		return true;
+	}
+
+	// ── 内部 ──────────────────────────────────────
+	private insert(entry: Waiting): void {
+		const rank = PRIORITY_RANK[entry.info.priority];
+		const idx = this.waiting.findIndex((w) => PRIORITY_RANK[w.info.priority] > rank);
+		if (idx < 0) this.waiting.push(entry);
+		else this.waiting.splice(idx, 0, entry);
+	}
+
+	private isLocked(lockKey: string): boolean {
+		for (const t of this.running.values()) if (t.lockKey === lockKey) return true;
+		return false;
+	}
+
+	// 按队列顺序启动可运行的任务：未达并发上限，且同会话没有运行中或排在前面的任务
+	private pump(): void {
+		const cap = this.opts.maxConcurrent();
+		const blocked = new Set<string>();
+		for (let i = 0; i < this.waiting.length; i++) {
+			if (this.draining || (cap > 0 && this.running.size >= cap)) break;
+			const entry = this.waiting[i]!;
+			const key = entry.info.lockKey;
+			if (blocked.has(key) || this.isLocked(key)) {
+				blocked.add(key);
+				continue;
+			}
+			this.waiting.splice(i, 1);
+			i--;
+			const waitedSec = Math.round((Date.now() - entry.info.enqueuedAt) / 1000);
+			if (waitedSec > 0) this.log(`开始 ${entry.info.id} (${entry.info.label})，排队 ${waitedSec}s`);
+			entry.start();
+		}
+		this.notifyPositions();
+	}
+
+	private notifyPositions(): void {
+		const etas = this.estimate();
+		this.waiting.forEach((w, i) => {
+			if (w.lastPosition === i + 1) return;
+			w.lastPosition = i + 1;
+			try {
+				w.onQueued?.({ position: i + 1, etaMs: etas[i] ?? 0 });
+			} catch {}
+		});
+	}
+
+	private recordDuration(ms: number): void {
+		this.durations.push(ms);
+		if (this.durations.length > DURATION_SAMPLES) this.durations.shift();
+	}
+
+	private averageDuration(): number {
+		if (this.durations.length === 0) return DEFAULT_TASK_MS;
+		return this.durations.reduce((a, b) => a + b, 0) / this.durations.length;
+	}
+
+	// 粗略估算：每个执行槽位按平均耗时依次处理等待中的任务（忽略会话串行约束）
+	private estimate(): number[] {
+		const avg = this.averageDuration();
+		const now = Date.now();
+		const cap = this.opts.maxConcurrent();
+		const slots = [...this.running.values()].map((t) => Math.max(avg - (now - t.startedAt!), 0));
+		const slotCount = cap > 0 ? cap : Math.max(slots.length + this.waiting.length, 1);
+		while (slots.length < slotCount) slots.push(0);
+		return this.waiting.map(() => {
+			slots.sort((a, b) => a - b);
+			const startAt = slots[0]!;
+			slots[0] = startAt + avg;
+			return startAt;
+		});
+	}
+}
@@ -0,0 +1,149 @@
+/**
+ * 用量统计 — 记录每次 Agent 调用，按用户 / 项目 / 模型 / 来源汇总
+ *
+ * 数据存于服务目录的 .usage.sqlite（与工作区无关，跨项目汇总）。
+ * 只记录元数据（耗时、工具调用数、结果长度等），不保存 prompt 与回复内容。
+ */
+
+import { Database } from "bun:sqlite";
+
+// ── 类型 ──────────────────────────────────────────
+
+/** 调用来源：飞书对话 / 定时任务 / 心跳 / 记忆蒸馏 / 启动自检 */
+export type UsageSource = "chat" | "cron" | "heartbeat" | "distill" | "boot";
+export type UsageStatus = "ok" | "error" | "timeout" | "cancelled";
+
+export interface UsageRecord {
+	startedAt: number;
+	durationMs: number;
+	queuedMs: number;
+	source: UsageSource;
+	userId?: string;
+	chatId?: string;
+	accountId?: string;
+	workspace: string;
+	project?: string;
+	job?: string;
+	model: string;
+	status: UsageStatus;
+	toolCalls: number;
+	resultChars: number;
+	/** 首选模型欠费，降级 auto 完成 */
+	fallback: boolean;
+}
+
+export interface UsageTotals {
+	runs: number;
+	durationMs: number;
+	toolCalls: number;
+	resultChars: number;
+	errors: number;
+	timeouts: number;
+	fallbacks: number;
+}
+
+export interface UsageGroupRow extends UsageTotals {
+	key: string;
+}
+
+export type UsageDimension = "user" | "project" | "model" | "source" | "day";
+
+const DIMENSION_COLUMNS: Record<UsageDimension, string> = {
+	user: "COALESCE(user_id, '')",
+	project: "COALESCE(project, workspace)",
+	model: "model",
+	// 定时任务按任务名细分
+	source: "CASE WHEN source = 'cron' AND job IS NOT NULL THEN 'cron:' || job ELSE source END",
+	day: "date(started_at / 1000, 'unixepoch', 'localtime')",
+};
+
+const TOTALS_SELECT = `
+	COUNT(*) AS runs,
+	COALESCE(SUM(duration_ms), 0) AS durationMs,
+	COALESCE(SUM(tool_calls), 0) AS toolCalls,
+	COALESCE(SUM(result_chars), 0) AS resultChars,
+	COALESCE(SUM(status = 'error'), 0) AS errors,
+	COALESCE(SUM(status = 'timeout'), 0) AS timeouts,
+	COALESCE(SUM(fallback), 0) AS fallbacks`;
+
+// ── 统计器 ────────────────────────────────────────
+
+export class UsageTracker {
+	private db: Database;
+
+	constructor(dbPath: string) {
+		this.db = new Database(dbPath);
+		this.db.exec("PRAGMA journal_mode = WAL");
+		this.db.exec(`
+			CREATE TABLE IF NOT EXISTS agent_runs (
+				id           INTEGER PRIMARY KEY AUTOINCREMENT,
+				started_at   INTEGER NOT NULL,
+				duration_ms  INTEGER NOT NULL,
+				queued_ms    INTEGER NOT NULL DEFAULT 0,
+				source       TEXT NOT NULL,
+				user_id      TEXT,
+				chat_id      TEXT,
+				account_id   TEXT,
+				workspace    TEXT NOT NULL,
+				project      TEXT,
+				job          TEXT,
+				model        TEXT NOT NULL,
+				status       TEXT NOT NULL,
+				tool_calls   INTEGER NOT NULL DEFAULT 0,
+				result_chars INTEGER NOT NULL DEFAULT 0,
+				fallback     INTEGER NOT NULL DEFAULT 0
+			);
+			CREATE INDEX IF NOT EXISTS idx_agent_runs_started ON agent_runs(started_at);
+			CREATE TABLE IF NOT EXISTS meta (
+				key   TEXT PRIMARY KEY,
+				value TEXT NOT NULL
+			);
+		`);
+	}
+
+	record(r: UsageRecord): void {
+		this.db
+			.prepare(
+				`INSERT INTO agent_runs (started_at, duration_ms, queued_ms, source, user_id, chat_id, account_id,
+					workspace, project, job, model, status, tool_calls, result_chars, fallback)
+				VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+			)
+			.run(
+				r.startedAt, r.durationMs, r.queuedMs, r.source, r.userId ?? null, r.chatId ?? null, r.accountId ?? null,
+				r.workspace, r.project ?? null, r.job ?? null, r.model, r.status, r.toolCalls, r.resultChars, r.fallback ? 1 : 0,
+			);
+	}
+
+	/** [since, until) 区间内的合计（不含已取消的排队任务） */
+	totals(since: number, until = Date.now()): UsageTotals {
+		return this.db
+			.prepare(`SELECT ${TOTALS_SELECT} FROM agent_runs WHERE started_at >= ? AND started_at < ? AND status != 'cancelled'`)
+			.get(since, until) as UsageTotals;
+	}
+
+	/** 按维度分组：按天时按日期升序，其余按总耗时降序 */
+	breakdown(dimension: UsageDimension, since: number, until = Date.now(), limit = 10): UsageGroupRow[] {
+		const col = DIMENSION_COLUMNS[dimension];
+		return this.db
+			.prepare(
+				`SELECT ${col} AS key, ${TOTALS_SELECT} FROM agent_runs
+				WHERE started_at >= ? AND started_at < ? AND status != 'cancelled'
+				GROUP BY key ORDER BY ${dimension === "day" ? "key" : "durationMs DESC"} LIMIT ?`,
+			)
+			.all(since, until, limit) as UsageGroupRow[];
+	}
+
+	/** 少量状态（如每日汇总最后发送日期），重启后保留 */
+	getMeta(key: string): string | undefined {
+		const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as { value: string } | null;
+		return row?.value;
+	}
+
+	setMeta(key: string, value: string): void {
+		this.db.prepare("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)").run(key, value);
+	}
+
+	close(): void {
+		this.db.close();
+	}
+}